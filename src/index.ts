@@ -1,6 +1,35 @@
-import { debug } from './lib/Output';
+import { Logger, LogLevel } from './lib/Output';
 import { expect } from 'expect';
-import { MailSlurp as MailSlurpClient } from 'mailslurp-client';
+import { createProvider, matchesOptions, EmailFixture, LocalProvider, MailProvider, MailSlurpProvider } from './lib/providers';
+import type { SmtpProviderOptions } from './lib/providers/SmtpProvider';
+import type { LocalProviderOptions } from './lib/providers/LocalProvider';
+import fs from 'fs';
+import os from 'os';
+import { createHash, randomUUID } from 'crypto';
+import type { Cheerio } from 'cheerio';
+import type { AnyNode } from 'domhandler';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { getAllure, getBrowserHelper, getCodeceptDir, getOutputDir } from './lib/codecept';
+import { artifactName, saveEmailArtifact, EmailArtifact } from './lib/artifacts';
+import { attachmentText, Attachment } from './lib/attachments';
+import { extractLinks, linkMatches, EmailLink } from './lib/links';
+import { htmlToText, loadHtml, normalizeWhitespace } from './lib/html';
+import { findHeader, findHeaders, flattenParts, parseMime, partText, MimePart } from './lib/mime';
+import { renderEmailHtml } from './lib/preview';
+import { formatAddress, parseAddress, parseAddressList, Address } from './lib/addresses';
+import { findOtp, OtpOptions } from './lib/otp';
+import { compileQuery, describeQuery, matchesQuery, EmailQuery } from './lib/query';
+import { MailboxPool } from './lib/MailboxPool';
+import { createInboxOptions, Inbox, MailboxOptions } from './lib/mailboxes';
+import { ApiError, AuthenticationError, EmailWaitTimeoutError, MailboxNotFoundError, MailSlurpError } from './lib/errors';
+import type { RetryOptions } from './lib/providers';
+import { composeEmail, contentTypeOf, forwardedBody, prefixSubject, threadHeaders, OutgoingEmail } from './lib/compose';
+import { emailSnapshot, isCI, matchSnapshot, snapshotFile, updateSnapshotsEnv, MaskRule, SnapshotOptions } from './lib/snapshots';
+import { findBrokenImages, findImagesWithoutAlt, findInsecureLinks, findUnsubscribeLink, lintEmail, EmailLintReport } from './lib/lint';
+import { findThread, parentId, sortByReceivedTime, threadIds } from './lib/threads';
+import { WebhookReceiver, WebhookOptions } from './lib/webhooks';
+import type { Email, EmailPreview, InboxDto, MailSlurp as MailSlurpClient, MatchOptions, SentEmailDto } from 'mailslurp-client';
 
 /**
  * Allows to use real emails in E2E tests via [MailSlurp service](https://mailslurp.com).
@@ -20,57 +49,303 @@ import { MailSlurp as MailSlurpClient } from 'mailslurp-client';
  *
  * ## Configuration
  *
- * * `apiKey` (required) -  api key from MailSlurp
+ * * `apiKey` (required for MailSlurp) -  api key from MailSlurp
  * * `timeout` (default: 10000) - time to wait for emails in milliseconds.
- * * `debug` (default: false) - print debug logs
+ * * `pollInterval` (default: 1000) - how often mailboxes are checked by `dontReceiveEmail*` steps and waits in multiple mailboxes, in milliseconds.
+ * * `debug` (default: false) - print debug logs, same as `logLevel: 'debug'`
+ * * `logLevel` (default: 'warn') - `'error'`, `'warn'`, `'info'` or `'debug'`. Messages are printed through CodeceptJS output
+ *   and emitted as `mailslurp.log` events. API key, one-time codes and tokens in links are masked in logs.
+ * * `provider` (default: 'mailslurp') - mail backend: `'mailslurp'`, `'smtp'`, `'memory'` or an object implementing `MailProvider` interface.
+ * * `smtp` - options of a local SMTP server used by `'smtp'` provider:
+ *   * `host` (default: '127.0.0.1') - host to listen on.
+ *   * `port` (default: 2525) - port to listen on, `0` picks a random port.
+ *   * `domain` (default: 'example.test') - domain of created mailboxes.
+ * * `memory` - options of `'memory'` provider:
+ *   * `domain` (default: 'example.test') - domain of created mailboxes.
+ * * `retry` - retries of failed MailSlurp requests. Network errors and 5xx responses are retried for requests which
+ *   don't change data, rate limited requests (429) are retried after a delay from `Retry-After` header:
+ *   * `retries` (default: 3) - number of retries.
+ *   * `minDelay` (default: 500) - delay before the first retry in milliseconds, doubled on each next one.
+ *   * `maxDelay` (default: 10000) - maximal delay between retries in milliseconds.
+ * * `mailbox` - default options of created mailboxes, see `haveNewMailbox`.
+ * * `pool` - reuse mailboxes between tests instead of creating new ones:
+ *   * `size` - number of mailboxes created before a suite starts.
+ *   * `dir` - directory where parallel workers keep a list of pooled mailboxes and their leases.
+ *     By default a temp directory bound to an API key.
+ *   * `leaseTimeout` (default: 600000) - a lease is refreshed while a worker runs, a lease not refreshed for this time
+ *     is treated as abandoned by a crashed run, in milliseconds.
+ *   * `timeout` (default: 60000) - how long to wait for a free mailbox when all of them are leased, in milliseconds.
+ *   * `keepLeaseOnFailure` (default: false) - with `cleanup: 'onSuccess'`, keep mailboxes of failed tests leased
+ *     until `leaseTimeout` expires, so no other test receives emails into them.
+ * * `cleanup` (default: 'always') - what happens to mailboxes after a test:
+ *   * `'always'` - created mailboxes are deleted, pooled mailboxes are emptied and released.
+ *   * `'onSuccess'` - same as `'always'` after a passed test. After a failed test mailboxes and emails are kept
+ *     for investigation, pooled mailboxes are released without emptying, until they are leased again.
+ *   * `'never'` - created mailboxes are kept, pooled mailboxes are released without emptying.
+ *
+ *   Mailboxes opened with `haveExistingMailbox` are never deleted.
+ * * `attachEmails` (default: 'failed') - when emails opened in a test are saved to `output/emails` and attached to a report:
+ *   `'failed'` - after a failed test, `'always'` - after every test, `'never'` - disabled.
+ * * `snapshots` - options of `seeEmailMatchesSnapshot`:
+ *   * `dir` - directory of snapshots. By default `__email_snapshots__` next to a test file.
+ *   * `mask` - rules `{ pattern, replacement }` masking volatile values in all snapshots.
+ * * `webhook` - resolve waits from `NEW_EMAIL` webhook events instead of long polling, see below:
+ *   * `host` (default: '127.0.0.1') - host a receiver listens on.
+ *   * `port` (default: 0) - port a receiver listens on, `0` picks a random port.
+ *   * `url` - public url of a receiver registered in webhooks, like an url of a tunnel to `port`.
+ *     By default `http://<host>:<port>/`, which MailSlurp can't reach from outside.
+ *   * `pollInterval` (default: 5000) - how often a mailbox is checked when no events arrive, in milliseconds.
+ *
+ * ### Local SMTP server
+ *
+ * To run tests offline, use `smtp` provider. It starts a local SMTP server which catches all emails,
+ * so an application under test should be configured to send emails to it.
+ *
+ * ```js
+ * helpers: {
+ *   MailSlurp: {
+ *     provider: 'smtp',
+ *     smtp: { port: 2525 },
+ *     require: '@codeceptjs/mailslurp-helper'
+ *   },
+ * }
+ * ```
+ *
+ * ### In-memory mailboxes
+ *
+ * `memory` provider keeps mailboxes and emails in memory without any network access.
+ * Emails sent with `I.sendEmail` are delivered instantly, and fixture emails
+ * can be put into a mailbox with `I.haveEmailInMailbox`, so waits resolve deterministically.
+ *
+ * ### Webhooks
+ *
+ * With `webhook` option a helper starts an HTTP server and registers a webhook for each mailbox a test waits in.
+ * Waits resolve as soon as a `NEW_EMAIL` event arrives. An event only makes a helper fetch emails of its mailbox again,
+ * so its content is never trusted. If a webhook can't be registered, or events don't arrive, a mailbox is polled.
+ * Local providers send events too, so webhook mode can be tried without MailSlurp.
+ *
+ * ```js
+ * helpers: {
+ *   MailSlurp: {
+ *     apiKey: '<insert api key here>',
+ *     webhook: { port: 4000, url: 'https://my-tunnel.example.com/' },
+ *     require: '@codeceptjs/mailslurp-helper'
+ *   },
+ * }
+ * ```
+ *
+ * ### Mailbox pool
+ *
+ * Creating a mailbox for each test is slow and counts against MailSlurp quota.
+ * With `pool` option `I.haveNewMailbox()` leases one of pre-created mailboxes instead.
+ * A leased mailbox is emptied, so a test never sees emails from previous ones.
+ * Leases are kept in files, so parallel workers of `run-workers` never share a mailbox.
+ *
+ * ```js
+ * helpers: {
+ *   MailSlurp: {
+ *     apiKey: '<insert api key here>',
+ *     pool: { size: 5 },
+ *     cleanup: 'onSuccess',
+ *     require: '@codeceptjs/mailslurp-helper'
+ *   },
+ * }
+ * ```
  *
  */
 
-type Configuration = {
-  apiKey: string,
-  timeout?: number,
-  debug?: boolean
-}
+// how a mailbox was obtained in a test, defines what happens to it after a test
+type MailboxSource = 'new' | 'pooled' | 'existing';
+
+const cleanupPolicies = ['always', 'never', 'onSuccess'];
+const attachPolicies = ['failed', 'always', 'never'];
 
 class MailSlurp {
-  config: any;
-  mailslurp: any;
-  mailboxes: any[];
-  currentMailbox: any;
-  currentEmail: any;
-  useExisitngMailbox: boolean;
+  // errors thrown by steps, to check them with `instanceof`
+  static MailSlurpError = MailSlurpError;
+  static ApiError = ApiError;
+  static AuthenticationError = AuthenticationError;
+  static MailboxNotFoundError = MailboxNotFoundError;
+  static EmailWaitTimeoutError = EmailWaitTimeoutError;
+
+  config: MailSlurp.Configuration;
+  logger: Logger;
+  provider: MailProvider;
+  // MailSlurp client, available only with `mailslurp` provider
+  mailslurp: MailSlurpClient;
+  mailboxes: Inbox[];
+  currentMailbox: Inbox;
+  currentEmail: Email;
+  rawEmails: Map<string, string>;
+  pool: MailboxPool;
+  mailboxSources: Map<string, MailboxSource>;
+  // emails received before a marker are ignored by waits, by mailbox id
+  sinceMarkers: Map<string, MailSlurp.MailboxMarker>;
+  // receives webhook events when `webhook` option is set
+  receiver: WebhookReceiver;
+  // webhooks registered in a test by mailbox id, null when registration failed
+  webhookIds: Map<string, string>;
+  testFailed: boolean;
+  testTitle: string;
+  testFile: string;
+  openedEmails: Email[];
 
-  constructor(config: Configuration) {
+  constructor(config: MailSlurp.Configuration) {
 
-    const defaults = {
+    const defaults: MailSlurp.Configuration = {
       timeout: 10000,
-      debug: false
+      pollInterval: 1000,
+      debug: false,
+      cleanup: 'always',
+      attachEmails: 'failed',
     };
 
     this.config = Object.assign(defaults, config);
-    if (!this.config.apiKey) {
-      throw new Error(`MailSlurp is not configured! Please provide API key to access your account`);
+    if (!cleanupPolicies.includes(this.config.cleanup)) {
+      throw new Error(`Unknown cleanup policy "${this.config.cleanup}". Use one of: ${cleanupPolicies.join(', ')}`);
+    }
+    if (!attachPolicies.includes(this.config.attachEmails)) {
+      throw new Error(`Unknown attachEmails option "${this.config.attachEmails}". Use one of: ${attachPolicies.join(', ')}`);
+    }
+    this.logger = new Logger({
+      level: this.config.logLevel || (this.config.debug ? 'debug' : 'warn'),
+      secrets: [this.config.apiKey],
+    });
+    this.provider = createProvider(this.config, message => this.logger.warn(message));
+    // MailSlurp client is kept for direct access to its API
+    if (this.provider instanceof MailSlurpProvider) this.mailslurp = this.provider.client;
+    if (this.config.pool) {
+      this.pool = new MailboxPool(this.provider, {
+        dir: this._poolDir(),
+        pollInterval: this.config.pollInterval,
+        inboxOptions: () => this._createInboxOptions({}),
+        ...this.config.pool,
+      });
     }
-    this.mailslurp = new MailSlurpClient({ apiKey: this.config.apiKey, attribution: 'codeceptjs' });
   }
 
-  _before() {
+  async _init() {
+    if (this.provider.start) await this.provider.start();
+    if (this.config.webhook) await this._startReceiver();
+  }
+
+  async _startReceiver() {
+    const provider = this.provider;
+    if (!provider.createWebhook) {
+      this.logger.warn('Mail provider doesn\'t support webhooks, falling back to polling');
+      return;
+    }
+    const receiver = new WebhookReceiver(this.config.webhook);
+    try {
+      this.logger.debug(`Receiving webhooks at ${await receiver.start()}`);
+      this.receiver = receiver;
+    } catch (err) {
+      this.logger.warn(`Failed to start webhook receiver, falling back to polling: ${err.message}`);
+    }
+  }
+
+  async _beforeSuite() {
+    if (this.pool) await this.pool.provision();
+  }
+
+  async _finishTest() {
+    // mailboxes of local providers live only in this process, a pool of them can't be reused
+    if (this.pool && !this._isPoolShared()) await this.pool.destroy();
+    if (this.receiver) await this.receiver.stop();
+    this.receiver = null;
+    if (this.provider.stop) await this.provider.stop();
+  }
+
+  _before(test?) {
+    this.testTitle = test ? test.title : null;
+    this.testFile = test ? test.file : null;
     this.mailboxes = [];
+    this.mailboxSources = new Map();
+    this.sinceMarkers = new Map();
+    this.webhookIds = new Map();
+    this.openedEmails = [];
+    this.testFailed = false;
     this.currentMailbox = null;
     this.currentEmail = null;
+    this.rawEmails = new Map();
+  }
+
+  async _passed(test?) {
+    if (this.config.attachEmails === 'always') await this._attachEmails(test);
+  }
+
+  async _failed(test?) {
+    this.testFailed = true;
+    if (this.config.attachEmails !== 'never') await this._attachEmails(test);
+  }
+
+  /**
+   * Saves emails opened in a test as `.eml` and `.html` files into `output/emails`,
+   * adds them to test artifacts and to Allure report when it is enabled.
+   */
+  async _attachEmails(test?): Promise<EmailArtifact[]> {
+    if (!this.openedEmails || !this.openedEmails.length) return [];
+    const title = (test && test.title) || this.testTitle || 'test';
+    const dir = path.join(getOutputDir(), 'emails', title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60));
+    const allure = getAllure();
+    const artifacts = [];
+    try {
+      for (const [index, email] of this.openedEmails.entries()) {
+        let raw = this.rawEmails.get(email.id);
+        if (!raw) raw = await this.provider.getRawEmail(email.id).catch(() => null);
+        const artifact = await saveEmailArtifact(email, raw, dir, artifactName(email, index));
+        artifacts.push(artifact);
+        if (test) {
+          test.artifacts = test.artifacts || {};
+          test.artifacts[`email${index + 1}`] = artifact.html;
+          test.artifacts[`email${index + 1}Source`] = artifact.eml;
+        }
+        if (allure) {
+          allure.addAttachment(`Email: ${email.subject}`, await fs.promises.readFile(artifact.html), 'text/html');
+          allure.addAttachment(`Email source: ${email.subject}`, await fs.promises.readFile(artifact.eml), 'message/rfc822');
+        }
+      }
+    } catch (err) {
+      // a report must not break because of an email
+      this.logger.error(`Failed to save emails of a test: ${err.message}`);
+    }
+    if (artifacts.length) this.logger.info(`Saved ${artifacts.length} emails to ${dir}`);
+    return artifacts;
   }
 
   async _after() {
+    await this._deleteWebhooks();
     if (!this.mailboxes || !this.mailboxes.length) return;
-    if (!this.useExisitngMailbox) {
-      await Promise.all(this.mailboxes.map(m => this.mailslurp.deleteInbox(m.id)));
-      if (this.config.debug) debug(`Removed ${this.mailboxes.length} mailboxes`);
+    const keep = this.config.cleanup === 'never' || (this.config.cleanup === 'onSuccess' && this.testFailed);
+    let removed = 0;
+    for (const [mailboxId, source] of this.mailboxSources) {
+      if (source === 'pooled') {
+        // a mailbox of a failed test stays leased on request, so its emails can be investigated
+        if (this.config.cleanup === 'onSuccess' && this.testFailed && this.config.pool.keepLeaseOnFailure) this.pool.hold(mailboxId);
+        else await this.pool.release(mailboxId, { empty: !keep });
+      } else if (source === 'new' && !keep) {
+        await this.provider.deleteInbox(mailboxId);
+        removed++;
+      }
     }
+    if (removed) this.logger.debug(`Removed ${removed} mailboxes`);
     this.mailboxes = [];
+    this.mailboxSources = new Map();
+    this.sinceMarkers = new Map();
     this.currentMailbox = null;
     this.currentEmail = null;
   }
 
+  async _deleteWebhooks() {
+    if (!this.webhookIds) return;
+    for (const [mailboxId, webhookId] of this.webhookIds) {
+      if (!webhookId || !this.provider.deleteWebhook) continue;
+      await this.provider.deleteWebhook(mailboxId, webhookId)
+        .catch(err => this.logger.error(`Failed to delete webhook of ${mailboxId}: ${err.message}`));
+    }
+    this.webhookIds = new Map();
+  }
+
   // enterprise API function
   // async haveMultipleMailboxes(num) {
   //   const mailboxes = await this.mailslurp.bulkCreateInboxes(num);
@@ -81,18 +356,32 @@ class MailSlurp {
 
   /**
   * Creates a new mailbox. A mailbox will be deleted after a test.
+  * When `pool` is configured, an empty mailbox is leased from a pool instead,
+  * and returned to a pool after a test. Mailboxes with options are never taken from a pool.
   * Switches to last created mailbox.
   *
   * ```js
   * const mailbox = await I.haveNewMailbox();
+  * // mailbox with an address like reset-password-1f3a9c2e@mydomain.com
+  * const mailbox = await I.haveNewMailbox({ domain: 'mydomain.com', localPart: '{test}-{random}', tags: ['e2e'] });
   * ```
+  *
+  * Options override `mailbox` options of a helper config:
+  *
+  * * `name`, `description` - mailbox name and description.
+  * * `domain` - domain of an address, must be verified in MailSlurp account.
+  * * `localPart` - part of an address before `@`. Placeholders: `{test}` - current test title, `{random}` - random characters, `{timestamp}` - current time.
+  * * `tags` - list of tags.
+  * * `expiresIn` - time in milliseconds after which a mailbox expires.
+  * * `useDomainPool` - use a pool of MailSlurp domains for an address.
+  *
+  * @param {object} [options] mailbox options.
+  * @returns {Promise<Inbox>} a mailbox, converts to its email address in strings.
   */
-  async haveNewMailbox() {
-    const inbox = await this.mailslurp.createInbox();
-    inbox.toString = () => inbox.emailAddress;
-    this.mailboxes.push(inbox);
-    this.currentMailbox = inbox;
-    return inbox;
+  async haveNewMailbox(options: MailboxOptions = {}): Promise<Inbox> {
+    const leased = this.pool && !Object.keys(options).length;
+    const inbox = leased ? await this.pool.lease() : await this.provider.createInbox(this._createInboxOptions(options));
+    return this._addMailbox(inbox, leased ? 'pooled' : 'new');
   }
 
   /**
@@ -104,19 +393,39 @@ class MailSlurp {
    * @param {string} mailboxId ID of an existing MailSlurp inbox.
    * @returns {Promise<Inbox>}
    */
-  async haveExistingMailbox(mailboxId) {
+  async haveExistingMailbox(mailboxId: string): Promise<Inbox> {
     if (!mailboxId) {
       throw new Error('Id of existing mailbox must be provided in parameters.')
     }
 
-    const inbox = await this.mailslurp.getInbox(mailboxId)
-    inbox.toString = () => inbox.emailAddress;
+    const inbox = await this.provider.getInbox(mailboxId)
+    return this._addMailbox(inbox, 'existing');
+  }
+
+  _addMailbox(inbox: InboxDto, source: MailboxSource): Inbox {
+    (inbox as Inbox).toString = () => inbox.emailAddress;
     this.mailboxes.push(inbox);
+    if (!this.mailboxSources.has(inbox.id)) this.mailboxSources.set(inbox.id, source);
     this.currentMailbox = inbox;
-    this.useExisitngMailbox = true;
     return inbox;
   }
 
+  _createInboxOptions(options: MailboxOptions) {
+    const defaultDomain = this.provider instanceof LocalProvider ? this.provider.domain : null;
+    return createInboxOptions({ ...this.config.mailbox, ...options }, this.testTitle, defaultDomain);
+  }
+
+  _isPoolShared(): boolean {
+    return this.provider instanceof MailSlurpProvider || !!(this.config.pool && this.config.pool.dir);
+  }
+
+  _poolDir(): string {
+    if (this.config.pool.dir) return path.resolve(this.config.pool.dir);
+    // workers using the same account share a pool
+    const key = this._isPoolShared() ? createHash('sha256').update(this.config.apiKey).digest('hex').slice(0, 16) : randomUUID();
+    return path.join(os.tmpdir(), 'codeceptjs-mailslurp-pool', key);
+  }
+
   /**
   * Change a current mailbox to a provided one:
   *
@@ -128,12 +437,13 @@ class MailSlurp {
   * I.openMailbox(mailbox)
   * ```
   */
-  openMailbox(mailbox) {
+  openMailbox(mailbox: Inbox) {
     this.currentMailbox = mailbox;
   }
 
 
-  openEmail(email) {
+  openEmail(email: Email) {
+    recordEmail.call(this, email);
     this.currentEmail = email;
   }
 
@@ -147,12 +457,154 @@ class MailSlurp {
   *   body: 'World'
   * });
   * ```
+  *
+  * A body can be set with `htmlBody` or `text` fields. When `variables` are passed,
+  * `{{name}}` placeholders in subject and body are replaced with their values, HTML-escaped in HTML bodies:
+  *
+  * ```js
+  * I.sendEmail({
+  *   to: ['support@site.com'],
+  *   subject: 'Ticket {{ticket.id}}',
+  *   htmlBody: '<p>Hi, {{name}}!</p>',
+  *   variables: { name: 'John', ticket: { id: 42 } },
+  * });
+  * ```
+  * @param {object} data email to send: `to`, `cc`, `bcc`, `subject`, `body`, `htmlBody`, `text`, `variables` and other MailSlurp send options.
   */
-  sendEmail(data) {
-    return this.mailslurp.sendEmail(this.currentMailbox.id, data);
+  sendEmail(data: OutgoingEmail): Promise<SentEmailDto> {
+    return this._sendEmail(data);
+  }
+
+  /**
+   * Uploads local files and sends them as attachments of an email from current mailbox.
+   * Paths are relative to a directory of CodeceptJS config.
+   *
+   * ```js
+   * await I.sendEmailWithAttachments({ to: ['invoices@site.com'], subject: 'Invoice' }, ['data/invoice.pdf']);
+   * ```
+   * @param {object} data email to send, same as in `sendEmail`.
+   * @param {string|string[]} filePaths files to attach.
+   */
+  async sendEmailWithAttachments(data: OutgoingEmail, filePaths: string | string[]): Promise<SentEmailDto> {
+    const files = [].concat(filePaths || []);
+    if (!files.length) throw new Error('Files to attach must be provided. Use sendEmail to send an email without attachments');
+    const attachments = [...(data.attachments || [])];
+    for (const file of files) {
+      const filePath = path.resolve(getCodeceptDir(), file);
+      if (!fs.existsSync(filePath)) throw new Error(`File to attach ${filePath} not found`);
+      const content = await fs.promises.readFile(filePath);
+      attachments.push(...await this.provider.uploadAttachment({
+        base64Contents: content.toString('base64'),
+        contentType: contentTypeOf(filePath),
+        filename: path.basename(filePath),
+      }));
+    }
+    return this._sendEmail({ ...data, attachments });
+  }
+
+  /**
+   * Replies to an email from current mailbox. A reply is sent to `Reply-To` or a sender of an email,
+   * its subject is prefixed with `Re:` and `In-Reply-To` and `References` headers put it into the same thread.
+   *
+   * ```js
+   * const email = await I.waitForLatestEmail();
+   * await I.replyToEmail(email, { text: 'Please reset my password' });
+   * // reply to current email
+   * await I.replyToEmail(null, { htmlBody: '<p>Thanks, {{name}}</p>', variables: { name: 'Support' } });
+   * ```
+   * @param {object} [email] an email to reply to, current email by default.
+   * @param {object} data a reply, same as in `sendEmail`. `to` and `subject` are optional.
+   */
+  async replyToEmail(email: Email | null, data: Partial<OutgoingEmail> = {}): Promise<SentEmailDto> {
+    const original = this._grabEmailOrCurrent(email);
+    return this._sendEmail({
+      ...data,
+      to: data.to || [original.replyTo || original.from],
+      subject: data.subject || prefixSubject('Re:', original.subject),
+      customHeaders: { ...threadHeaders(original), ...data.customHeaders },
+    });
+  }
+
+  /**
+   * Forwards an email with its attachments from current mailbox.
+   * A subject is prefixed with `Fwd:`, original sender, date, subject and recipients are added before a body.
+   *
+   * ```js
+   * const email = await I.waitForLatestEmail();
+   * await I.forwardEmail(email, 'tickets@site.com');
+   * await I.forwardEmail(null, ['tickets@site.com'], 'Please check this');
+   * ```
+   * @param {object} [email] an email to forward, current email by default.
+   * @param {string|string[]} to recipients.
+   * @param {string} [message] a text added before a forwarded email.
+   */
+  async forwardEmail(email: Email | null, to: string | string[], message?: string): Promise<SentEmailDto> {
+    const original = this._grabEmailOrCurrent(email);
+    const attachments = [];
+    for (const attachmentId of original.attachments || []) {
+      const meta = await this.provider.getAttachmentMetaData(attachmentId, original.id);
+      const content = await this.provider.downloadAttachment(attachmentId, original.id);
+      attachments.push(...await this.provider.uploadAttachment({
+        base64Contents: content.toString('base64'),
+        contentType: meta.contentType,
+        filename: meta.name,
+      }));
+    }
+    return this._sendEmail({
+      to: [].concat(to || []),
+      subject: prefixSubject('Fwd:', original.subject),
+      body: forwardedBody(original, message, !!original.isHTML),
+      isHTML: !!original.isHTML,
+      attachments,
+    });
+  }
+
+  async _sendEmail(data: OutgoingEmail): Promise<SentEmailDto> {
+    if (!this.currentMailbox) {
+      throw new Error('No mailbox to send an email from. Create a mailbox with haveNewMailbox or open one with openMailbox');
+    }
+    const options = composeEmail(data);
+    const recipients = options.to.length ? options.to.join(', ') : options.toGroup ? `group ${options.toGroup}` : `contacts ${options.toContacts.join(', ')}`;
+    this.logger.debug(`Sending email "${options.subject}" from ${this.currentMailbox.emailAddress} to ${recipients}`);
+    return this.provider.sendEmail(this.currentMailbox.id, options);
+  }
+
+  _grabEmailOrCurrent(email: Email | null): Email {
+    if (email) return email;
+    this._hasCurrentEmail();
+    return this.currentEmail;
   }
 
 
+  /**
+   * Puts an email into current mailbox without sending it.
+   * Accepts an email object or a path to `.eml` file.
+   * Works only with `memory` and `smtp` providers.
+   *
+   * ```js
+   * await I.haveEmailInMailbox({
+   *   from: 'app@site.com',
+   *   subject: 'Welcome',
+   *   html: '<p>Hello</p>',
+   *   attachments: [{ filename: 'terms.txt', content: 'Terms' }],
+   * });
+   * await I.haveEmailInMailbox('tests/fixtures/welcome.eml');
+   * ```
+   *
+   * @param {EmailFixture|string} email email object or path to `.eml` file.
+   * @returns {Promise<Email>} an email put into mailbox.
+   */
+  async haveEmailInMailbox(email: EmailFixture | string): Promise<Email> {
+    if (!(this.provider instanceof LocalProvider)) {
+      throw new Error('Emails can be put into mailbox only with memory or smtp providers');
+    }
+    const recipients = [this.currentMailbox.emailAddress];
+    const [delivered] = typeof email === 'string'
+      ? await this.provider.addEmailFromFile(email, recipients)
+      : await this.provider.addEmail(email, recipients);
+    return delivered;
+  }
+
   /**
    * Waits for the first email in mailbox.
    * If mailbox is not empty - opens the last email.
@@ -166,10 +618,15 @@ class MailSlurp {
    * @param {num} [sec] Number of seconds to wait.
    * @returns {Promise<Email>} an email received.
    */
-  async waitForLatestEmail(sec) {
+  async waitForLatestEmail(sec?: number): Promise<Email> {
     if (sec) sec = 1000*sec;
-    const email = await this.mailslurp.waitForLatestEmail(this.currentMailbox.id, sec || this.config.timeout);
-    printEmailDebug.call(this, email);
+    const marker = this.sinceMarkers.get(this.currentMailbox.id);
+    const email = await this.logger.timed('waitForLatestEmail', async () => {
+      if (!marker) return this._providerWaitForLatestEmail(this.currentMailbox.id, sec || this.config.timeout);
+      await this._waitForMatchingEmails({}, 1, sec || this.config.timeout);
+      return sortByReceivedTime(await this._grabEmailsSince(marker)).pop();
+    });
+    recordEmail.call(this, email);
     this.currentEmail = email;
     return email;
   }
@@ -177,7 +634,20 @@ class MailSlurp {
   /**
    * Wait for an exact email matched by query. You can match emails by `from`, `to`, `subject`, `cc`, `bcc` fields.
    * My default, non-strcit matching enabled, so it searches for inclusion of a string. For a strict matching (equality)
-   * prepend a value with `=` prefix.
+   * prepend a value with `=` prefix. Regular expressions can be used as values as well.
+   *
+   * Besides that, a query supports:
+   *
+   * * `body` - visible text of an email, with HTML stripped
+   * * `html` - raw HTML of an email
+   * * `headers` - object of header names and values, like `{ 'X-Campaign': 'welcome' }`
+   * * `receivedAfter`, `receivedBefore` - dates
+   * * `hasAttachments` - `true` or `false`
+   * * `not` - a query which an email must not match
+   * * `or` - an array of queries, at least one of them must match
+   *
+   * String values of `from`, `to`, `subject`, `cc`, `bcc` are matched by MailSlurp,
+   * other conditions are checked on received emails, and waiting continues until a matching email arrives.
    *
    * ```js
    *  // wait for email with 'password' in subject
@@ -195,26 +665,29 @@ class MailSlurp {
    *  from: '@mysite.com', // find anything from mysite
    *  subject: 'Restore password', // with Restore password in subject
    * });
+   *
+   * // match by body, headers and date
+   * const email = await I.waitForEmailMatching({
+   *  subject: /order #\d+/i,
+   *  body: 'Thank you',
+   *  headers: { 'X-Campaign': 'orders' },
+   *  receivedAfter: startedAt,
+   *  not: { subject: 'Cancelled' },
+   *  or: [{ from: '@shop.com' }, { from: '@billing.com' }],
+   * });
    * ```
-   * @param {object} query to locate an email
+   * @param {EmailQuery} query to locate an email
    * @param {num} [sec] Number of seconds to wait.
    * @returns {Promise<Email>} an email received.
    */
-  async waitForEmailMatching(query, sec) {
-    if (sec) sec = 1000*sec;
-    const emailPreviews = await this.mailslurp.waitForMatchingEmails(
-      matchEmailBy(query),
-      1,
-      this.currentMailbox.id,
-      sec || this.config.timeout
-    );
-
-    const email = await this.mailslurp.getEmail(emailPreviews[0].id);
-    printEmailDebug.call(this, email);
+  async waitForEmailMatching(query: EmailQuery, sec?: number): Promise<Email> {
+    const [email] = await this.logger.timed('waitForEmailMatching', () => this._waitForMatchingEmails(query, 1, sec ? 1000*sec : this.config.timeout));
+    recordEmail.call(this, email);
     this.currentEmail = email;
     return email;
   }
 
+
   /**
   * Wait for exact number of emails in mailbox. Returns the last email in the list.
   *
@@ -227,11 +700,65 @@ class MailSlurp {
   * const email = await I.waitForNthEmail(2);
   * ```
   */
-  async waitForNthEmail(number, sec) {
+  async waitForNthEmail(number: number, sec?: number): Promise<Email> {
     if (sec) sec = 1000*sec;
-    const email = await this.mailslurp.waitForNthEmail(this.currentMailbox.id, number, sec || this.config.timeout);
+    const email = await this.logger.timed('waitForNthEmail', async () => {
+      if (!this.sinceMarkers.has(this.currentMailbox.id)) return this._providerWaitForNthEmail(this.currentMailbox.id, number, sec || this.config.timeout);
+      return (await this._waitForMatchingEmails({}, number + 1, sec || this.config.timeout))[number];
+    });
+    this.currentEmail = email;
+    recordEmail.call(this, email);
+    return email;
+  }
+
+  /**
+   * Waits for an email in each of mailboxes. Mailboxes are checked concurrently within one timeout.
+   * Returns an object with email addresses of mailboxes as keys and received emails as values.
+   * Fails listing mailboxes which didn't receive an email.
+   *
+   * ```js
+   * const alice = await I.haveNewMailbox();
+   * const bob = await I.haveNewMailbox();
+   * I.click('Invite teammates');
+   * const emails = await I.waitForEmailsInMailboxes([alice, bob], { subject: 'Invitation' }, 30);
+   * emails[alice.emailAddress].subject; // 'Invitation to team'
+   * ```
+   *
+   * @param {Inbox[]} mailboxes mailboxes to wait for emails in.
+   * @param {EmailQuery} [query] to locate an email, see `waitForEmailMatching`
+   * @param {num} [sec] Number of seconds to wait.
+   * @returns {Promise<object>} emails by email addresses of mailboxes.
+   */
+  async waitForEmailsInMailboxes(mailboxes: Inbox[], query: EmailQuery = {}, sec?: number): Promise<{ [emailAddress: string]: Email }> {
+    const found = await this.logger.timed('waitForEmailsInMailboxes', () => this._waitForEmailsInMailboxes(mailboxes, query, sec ? 1000*sec : this.config.timeout, true));
+    const emails: { [emailAddress: string]: Email } = {};
+    for (const mailbox of mailboxes) {
+      emails[mailbox.emailAddress] = found.get(mailbox.id);
+      recordEmail.call(this, emails[mailbox.emailAddress]);
+    }
+    return emails;
+  }
+
+  /**
+   * Waits for an email matching a query in any of created mailboxes.
+   * Opens a received email and switches to its mailbox.
+   *
+   * ```js
+   * await I.haveNewMailbox();
+   * await I.haveNewMailbox();
+   * const email = await I.waitForEmailInAnyMailbox({ subject: 'Approval required' }, 30);
+   * ```
+   *
+   * @param {EmailQuery} [query] to locate an email, see `waitForEmailMatching`
+   * @param {num} [sec] Number of seconds to wait.
+   * @returns {Promise<Email>} an email received.
+   */
+  async waitForEmailInAnyMailbox(query: EmailQuery = {}, sec?: number): Promise<Email> {
+    const found = await this.logger.timed('waitForEmailInAnyMailbox', () => this._waitForEmailsInMailboxes(this.mailboxes, query, sec ? 1000*sec : this.config.timeout, false));
+    const [[mailboxId, email]] = [...found.entries()];
+    this.currentMailbox = this.mailboxes.find(m => m.id === mailboxId);
     this.currentEmail = email;
-    printEmailDebug.call(this, email);
+    recordEmail.call(this, email);
     return email;
   }
 
@@ -243,21 +770,17 @@ class MailSlurp {
    * // return 2 emails from 'user@user.com'
    * const emails = await I.grabEmailsMatching({ from: 'user@user.com'}, 2);
    * ```
-   * @param {object} query to locate an email
+   * @param {EmailQuery} query to locate an email, see `waitForEmailMatching`
    * @param {num} [num] Number of emails to return.
    * @returns {Promise<[Email]>} emails matching criteria.
    */
-  async grabEmailsMatching(query, num) {
-    const emailPreviews = await this.mailslurp.waitForMatchingEmails(
-      matchEmailBy(query),
-      num,
-      this.currentMailbox.id,
-      this.config.timeout
-    );
-    debug(`Received ${emailPreviews.length} emails`);
-    return Promise.all(emailPreviews.map(e => this.mailslurp.getEmail(e.id)));
+  async grabEmailsMatching(query: EmailQuery, num = 1): Promise<Email[]> {
+    const emails = await this.logger.timed('grabEmailsMatching', () => this._waitForMatchingEmails(query, num, this.config.timeout));
+    this.logger.debug(`Received ${emails.length} emails`);
+    return emails;
   }
 
+
   /**
    * Returns all emails from a mailbox.
    *
@@ -266,100 +789,683 @@ class MailSlurp {
    * ```
    * @returns {Promise<[Email]>} emails.
    */
-  async grabAllEmailsFromMailbox() {
-    const emailPreviews = await this.mailslurp.getEmails(this.currentMailbox.id);
-    debug(`Received ${emailPreviews.length} emails`);
-    return Promise.all(emailPreviews.map(e => this.mailslurp.getEmail(e.id)));
-  }
-
-  /**
-  * Checks that current email subject contains a text.
-  *
-  * ```js
-  * I.seeInEmailSubject('Restore password');
-  * ```
-  *
-  * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
-  */
-  seeInEmailSubject(text) {
-    this._hasCurrentEmail();
-    const email = this.currentEmail;
-    expect(email.subject).toContain(`${text}`);
+  async grabAllEmailsFromMailbox(): Promise<Email[]> {
+    const emailPreviews = await this.provider.getEmails(this.currentMailbox.id);
+    this.logger.debug(`Received ${emailPreviews.length} emails`);
+    return Promise.all(emailPreviews.map(e => this.provider.getEmail(e.id)));
   }
 
   /**
-  * Checks that current email subject does not contain a text.
-  *
-  * ```js
-  * I.seeInEmailSubject('Restore password');
-  * ```
-  *
-  * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
-  */
-  dontSeeInEmailSubject(text) {
-    this._hasCurrentEmail();
-    const email = this.currentEmail;
-    expect(email.subject).not.toContain(`${text}`);
+   * Returns a marker of current mailbox state, to check later which emails arrived after it.
+   *
+   * ```js
+   * const marker = await I.grabMailboxMarker();
+   * I.click('Unsubscribe');
+   * // ...
+   * I.seeNoNewEmailsSince(marker);
+   * ```
+   *
+   * @returns {Promise<MailboxMarker>} marker with ids of emails already received.
+   */
+  async grabMailboxMarker(): Promise<MailSlurp.MailboxMarker> {
+    const emailPreviews = await this.provider.getEmails(this.currentMailbox.id);
+    return { mailboxId: this.currentMailbox.id, emailIds: emailPreviews.map(e => e.id), time: new Date() };
   }
 
   /**
-  * Checks that current email body contains a text.
-  *
-  * ```js
-  * I.seeInEmailBody('Click link');
-  * ```
-  *
-  * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
-  */
-  seeInEmailBody(text) {
-    this._hasCurrentEmail();
-    const email = this.currentEmail;
-    expect(email.body).toContain(`${text}`);
+   * Checks that no emails arrived to current mailbox after a marker was taken.
+   * A marker is returned by `grabMailboxMarker`, a Date can be used as well.
+   *
+   * ```js
+   * const marker = await I.grabMailboxMarker();
+   * I.click('Save without notifications');
+   * I.seeNoNewEmailsSince(marker);
+   * ```
+   *
+   * @param {MailboxMarker|Date} marker marker or date.
+   */
+  async seeNoNewEmailsSince(marker: MailSlurp.MailboxMarker | Date): Promise<void> {
+    const emails = await this._grabEmailsSince(marker);
+    if (emails.length) throw new Error(`Expected no new emails in ${this.currentMailbox.emailAddress}, but received: ${describeEmails(emails)}`);
   }
 
   /**
-  * Checks that current email body does not contain a text.
-  *
-  * ```js
-  * I.dontSeeInEmailBody('Click link');
-  * ```
-  *
-  * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
-  */
-  dontSeeInEmailBody(text) {
-    this._hasCurrentEmail();
-    const email = this.currentEmail;
-    expect(email.body).not.toContain(`${text}`);
+   * Makes following waits in current mailbox ignore emails received before this step.
+   * Useful for mailboxes opened with `haveExistingMailbox`, which keep emails of previous runs.
+   * Affects `waitFor*` and `grabEmailsMatching` steps until the end of a test.
+   *
+   * ```js
+   * await I.haveExistingMailbox('94cxxxf4-7231-46ce-9f40-xxxcae39xxxx');
+   * await I.ignoreReceivedEmails();
+   * I.click('Send invitation');
+   * await I.waitForLatestEmail(); // old emails are not returned
+   * ```
+   *
+   * @param {MailboxMarker} [marker] a marker from `grabMailboxMarker`, emails received after it are not ignored.
+   * @returns {Promise<MailboxMarker>} a marker of ignored emails.
+   */
+  async ignoreReceivedEmails(marker?: MailSlurp.MailboxMarker): Promise<MailSlurp.MailboxMarker> {
+    const since = marker || await this.grabMailboxMarker();
+    if (since.mailboxId !== this.currentMailbox.id) {
+      throw new Error(`Marker of mailbox ${since.mailboxId} can't be used in ${this.currentMailbox.emailAddress}. Open its mailbox with openMailbox`);
+    }
+    this.sinceMarkers.set(since.mailboxId, since);
+    this.logger.debug(`Ignoring ${since.emailIds.length} emails received to ${this.currentMailbox.emailAddress}`);
+    return since;
   }
 
   /**
-  * Checks that email is from a specified address.
-  *
-  * ```js
-  * I.seeEmailIsFrom('user@user.com');
-  * ```
-  *
-  * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
-  */
-  seeEmailIsFrom(text) {
-    this._hasCurrentEmail();
-    const email = this.currentEmail;
-    expect(email.from).toContain(`${text}`);
+   * Waits for an unread email in current mailbox, optionally matching a query.
+   * A received email becomes read, so the next call waits for another email.
+   *
+   * ```js
+   * const email = await I.waitForUnreadEmail();
+   * await I.waitForUnreadEmail({ subject: 'Reminder' }, 30);
+   * ```
+   *
+   * @param {EmailQuery} [query] to locate an email, see `waitForEmailMatching`
+   * @param {num} [sec] Number of seconds to wait.
+   * @returns {Promise<Email>} an email received.
+   */
+  async waitForUnreadEmail(query: EmailQuery = {}, sec?: number): Promise<Email> {
+    const [email] = await this.logger.timed('waitForUnreadEmail', () => this._waitForMatchingEmails(query, 1, sec ? 1000*sec : this.config.timeout, true));
+    recordEmail.call(this, email);
+    this.currentEmail = email;
+    return email;
   }
 
   /**
-  * Checks that current email subject equals to text.
-  *
-  * ```js
-  * I.seeEmailSubjectEquals('Restore password');
-  * ```
-  *
-  * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
-  */
-  seeEmailSubjectEquals(text) {
-    this._hasCurrentEmail();
-    const email = this.currentEmail;
-    expect(email.subject).toEqual(`${text}`);
+   * Marks an email as read, current email by default.
+   *
+   * ```js
+   * const email = await I.haveEmailInMailbox({ subject: 'Old' });
+   * await I.markEmailAsRead(email);
+   * ```
+   *
+   * @param {Email} [email] an email to mark, current email by default.
+   */
+  async markEmailAsRead(email?: Email): Promise<void> {
+    const target = this._grabEmailOrCurrent(email);
+    await this.provider.markAsRead(target.id, true);
+    target.read = true;
+  }
+
+  /**
+   * Deletes an email, current email by default.
+   *
+   * ```js
+   * const email = await I.waitForLatestEmail();
+   * await I.deleteEmail(email);
+   * ```
+   *
+   * @param {Email} [email] an email to delete, current email by default.
+   */
+  async deleteEmail(email?: Email): Promise<void> {
+    const target = this._grabEmailOrCurrent(email);
+    await this.provider.deleteEmail(target.id);
+    if (this.currentEmail && this.currentEmail.id === target.id) this.currentEmail = null;
+    this.logger.debug(`Deleted email "${target.subject}"`);
+  }
+
+  /**
+   * Deletes all emails from current mailbox.
+   *
+   * ```js
+   * await I.haveExistingMailbox('94cxxxf4-7231-46ce-9f40-xxxcae39xxxx');
+   * await I.emptyMailbox();
+   * ```
+   */
+  async emptyMailbox(): Promise<void> {
+    await this.provider.emptyInbox(this.currentMailbox.id);
+    if (this.currentEmail && this.currentEmail.inboxId === this.currentMailbox.id) this.currentEmail = null;
+    this.sinceMarkers.delete(this.currentMailbox.id);
+    this.logger.debug(`Emptied ${this.currentMailbox.emailAddress}`);
+  }
+
+  /**
+   * Checks number of emails in current mailbox.
+   *
+   * ```js
+   * I.seeEmailCount(2);
+   * ```
+   *
+   * @param {number} number expected number of emails.
+   */
+  async seeEmailCount(number: number): Promise<void> {
+    const emailPreviews = await this.provider.getEmails(this.currentMailbox.id);
+    expect(emailPreviews.length).toEqual(number);
+  }
+
+  /**
+   * Returns emails of current mailbox in the same thread as an email, current email by default.
+   * Emails are grouped by `Message-ID`, `In-Reply-To` and `References` headers and sorted by received time.
+   *
+   * ```js
+   * const email = await I.waitForEmailMatching({ subject: 'Re: Ticket #42' });
+   * const thread = await I.grabEmailThread();
+   * thread.map(e => e.subject); // ['Ticket #42', 'Re: Ticket #42']
+   * ```
+   *
+   * @param {Email} [email] an email of a thread, current email by default.
+   * @returns {Promise<Email[]>} emails of a thread, including a passed email.
+   */
+  async grabEmailThread(email?: Email): Promise<Email[]> {
+    const target = this._grabEmailOrCurrent(email);
+    return findThread(await this.grabAllEmailsFromMailbox(), target);
+  }
+
+  /**
+   * Checks that current email is a reply to a previous email: its `In-Reply-To`
+   * (or the last of `References`) header contains `Message-ID` of a previous email.
+   *
+   * ```js
+   * const request = await I.waitForEmailMatching({ subject: 'Ticket #42' });
+   * I.click('Reply to customer');
+   * await I.waitForEmailMatching({ subject: 'Re: Ticket #42' });
+   * I.seeEmailIsReplyTo(request);
+   * ```
+   *
+   * @param {Email} previousEmail an email which current email replies to.
+   */
+  seeEmailIsReplyTo(previousEmail: Email) {
+    this._hasCurrentEmail();
+    const { messageId } = threadIds(previousEmail);
+    if (!messageId) throw new Error(`Email with subject "${previousEmail.subject}" has no Message-ID, replies to it can't be checked`);
+    const parent = parentId(this.currentEmail);
+    if (parent !== messageId) {
+      throw new Error(`Expected e-mail with subject "${this.currentEmail.subject}" to be a reply to <${messageId}> ("${previousEmail.subject}"), `
+        + (parent ? `but it replies to <${parent}>` : 'but it has no In-Reply-To and References headers'));
+    }
+  }
+
+  /**
+   * Checks number of emails in a thread of current email, see `grabEmailThread`.
+   *
+   * ```js
+   * await I.waitForEmailMatching({ subject: 'Re: Ticket #42' });
+   * await I.seeThreadLength(3);
+   * ```
+   *
+   * @param {number} length expected number of emails in a thread.
+   */
+  async seeThreadLength(length: number): Promise<void> {
+    const thread = await this.grabEmailThread();
+    if (thread.length !== length) {
+      throw new Error(`Expected ${length} emails in a thread of e-mail with subject "${this.currentEmail.subject}", `
+        + `but found ${thread.length}: ${describeEmails(thread)}`);
+    }
+  }
+
+  /**
+   * Checks that emails matching queries were received to current mailbox in this order.
+   * Other emails may arrive in between. Queries are the same as in `waitForEmailMatching`.
+   *
+   * ```js
+   * await I.seeEmailsInOrder([
+   *   { subject: 'Order received' },
+   *   { subject: 'Order shipped' },
+   *   { subject: 'Order delivered' },
+   * ]);
+   * ```
+   *
+   * @param {EmailQuery[]} queries queries of emails in expected order.
+   */
+  async seeEmailsInOrder(queries: EmailQuery[]): Promise<void> {
+    if (!queries || !queries.length) throw new Error('Queries of emails must be provided, like [{ subject: \'Welcome\' }, { subject: \'Confirm\' }]');
+    queries.forEach(query => compileQuery(query));
+    const emails = sortByReceivedTime(await this.grabAllEmailsFromMailbox());
+    let position = 0;
+    for (const [index, query] of queries.entries()) {
+      const found = emails.slice(position).findIndex(e => matchesQuery(e, query));
+      if (found < 0) {
+        const missing = emails.some(e => matchesQuery(e, query)) ? 'was received earlier than previous emails' : 'was not received';
+        throw new Error(`Expected emails in order, but email #${index + 1} matching ${describeQuery(query)} ${missing}. `
+          + `Emails in ${this.currentMailbox.emailAddress}: ${describeEmails(emails) || 'none'}`);
+      }
+      position += found + 1;
+    }
+  }
+
+  /**
+   * Checks that no emails arrive to current mailbox for a period of time.
+   * Fails as soon as an email arrives, listing it.
+   *
+   * ```js
+   * I.click('Disable notifications');
+   * I.click('Place order');
+   * // nothing arrives in 30 seconds
+   * I.dontReceiveEmail(30);
+   * ```
+   *
+   * @param {num} [sec] Number of seconds to watch a mailbox. Default: `timeout` from config.
+   */
+  async dontReceiveEmail(sec?: number): Promise<void> {
+    await this.logger.timed('dontReceiveEmail', () => this._dontReceiveEmails({}, sec));
+  }
+
+  /**
+   * Checks that no emails matching a query arrive to current mailbox for a period of time.
+   * Fails as soon as a matching email arrives. Other emails are ignored.
+   *
+   * ```js
+   * I.click('Unsubscribe from newsletter');
+   * I.dontReceiveEmailMatching({ subject: 'Newsletter' }, 30);
+   * ```
+   *
+   * @param {EmailQuery} query to locate an email, see `waitForEmailMatching`
+   * @param {num} [sec] Number of seconds to watch a mailbox. Default: `timeout` from config.
+   */
+  async dontReceiveEmailMatching(query: EmailQuery, sec?: number): Promise<void> {
+    compileQuery(query);
+    await this.logger.timed('dontReceiveEmailMatching', () => this._dontReceiveEmails(query, sec));
+  }
+
+  async _dontReceiveEmails(query: EmailQuery, sec?: number) {
+    const marker = await this.grabMailboxMarker();
+    const deadline = Date.now() + (sec ? 1000*sec : this.config.timeout);
+    while (true) {
+      const emails = (await this._grabEmailsSince(marker)).filter(e => matchesQuery(e, query));
+      if (emails.length) {
+        const matching = Object.keys(query).length ? ` matching ${describeQuery(query)}` : '';
+        throw new Error(`Expected no emails${matching} in ${this.currentMailbox.emailAddress}, but received: ${describeEmails(emails)}`);
+      }
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) return;
+      await sleep(Math.min(this.config.pollInterval, remaining));
+    }
+  }
+
+  /**
+   * Polls mailboxes until each of them (or any, when `all` is false) has an email matching a query.
+   * Returns the first matching email by mailbox id.
+   */
+  async _waitForEmailsInMailboxes(mailboxes: Inbox[], query: EmailQuery, timeout: number, all: boolean): Promise<Map<string, Email>> {
+    compileQuery(query);
+    if (!mailboxes || !mailboxes.length) throw new Error('No mailboxes to wait for emails in. Create a mailbox with haveNewMailbox');
+    const found = new Map<string, Email>();
+    const emails = new Map<string, Email>();
+    const startedAt = Date.now();
+    const deadline = startedAt + timeout;
+    const watched = (await Promise.all(mailboxes.map(m => this._watchMailbox(m.id)))).every(Boolean);
+    while (true) {
+      await Promise.all(mailboxes.filter(m => !found.has(m.id)).map(async mailbox => {
+        const marker = this.sinceMarkers.get(mailbox.id);
+        for (const preview of await this.provider.getEmails(mailbox.id)) {
+          if (marker && marker.emailIds.includes(preview.id)) continue;
+          if (!emails.has(preview.id)) emails.set(preview.id, await this.provider.getEmail(preview.id));
+          if (matchesQuery(emails.get(preview.id), query)) {
+            found.set(mailbox.id, emails.get(preview.id));
+            return;
+          }
+        }
+      }));
+      if (all ? found.size === mailboxes.length : found.size) return found;
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) break;
+      if (watched) await this.receiver.nextEvent(mailboxes.map(m => m.id), Math.min(this.config.webhook.pollInterval || 5000, remaining));
+      else await sleep(Math.min(this.config.pollInterval, remaining));
+    }
+    const missing = mailboxes.filter(m => !found.has(m.id)).map(m => m.emailAddress);
+    throw new EmailWaitTimeoutError(`Timed out after ${timeout}ms waiting for emails matching ${describeQuery(query)}. `
+      + `No emails received in: ${missing.join(', ')}`, { query, elapsed: Date.now() - startedAt });
+  }
+
+  async _grabEmailsSince(marker: MailSlurp.MailboxMarker | Date): Promise<Email[]> {
+    const emailPreviews = await this.provider.getEmails(this.currentMailbox.id);
+    const newPreviews = marker instanceof Date
+      ? emailPreviews.filter(e => new Date(e.createdAt).getTime() > marker.getTime())
+      : emailPreviews.filter(e => !marker.emailIds.includes(e.id));
+    return Promise.all(newPreviews.map(e => this.provider.getEmail(e.id)));
+  }
+
+  /**
+  * Checks that current email subject contains a text.
+  *
+  * ```js
+  * I.seeInEmailSubject('Restore password');
+  * ```
+  *
+  * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+  */
+  seeInEmailSubject(text: string) {
+    this._hasCurrentEmail();
+    const email = this.currentEmail;
+    expect(email.subject).toContain(`${text}`);
+  }
+
+  /**
+  * Checks that current email subject does not contain a text.
+  *
+  * ```js
+  * I.seeInEmailSubject('Restore password');
+  * ```
+  *
+  * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+  */
+  dontSeeInEmailSubject(text: string) {
+    this._hasCurrentEmail();
+    const email = this.currentEmail;
+    expect(email.subject).not.toContain(`${text}`);
+  }
+
+  /**
+  * Checks that current email body contains a text.
+  *
+  * ```js
+  * I.seeInEmailBody('Click link');
+  * ```
+  *
+  * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+  */
+  seeInEmailBody(text: string) {
+    this._hasCurrentEmail();
+    const email = this.currentEmail;
+    expect(email.body).toContain(`${text}`);
+  }
+
+  /**
+  * Checks that current email body does not contain a text.
+  *
+  * ```js
+  * I.dontSeeInEmailBody('Click link');
+  * ```
+  *
+  * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+  */
+  dontSeeInEmailBody(text: string) {
+    this._hasCurrentEmail();
+    const email = this.currentEmail;
+    expect(email.body).not.toContain(`${text}`);
+  }
+
+  /**
+   * Checks that visible text of current email contains a text.
+   * HTML tags are stripped, entities decoded and whitespace collapsed in both email and a text,
+   * so markup and line breaks in a template do not affect the check.
+   *
+   * ```js
+   * I.seeInEmailText('Click the button below to reset your password');
+   * ```
+   *
+   * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+   */
+  seeInEmailText(text: string) {
+    this._hasCurrentEmail();
+    expect(this._grabEmailText()).toContain(normalizeWhitespace(`${text}`).replace(/\s+/g, ' '));
+  }
+
+  /**
+   * Checks that visible text of current email does not contain a text.
+   *
+   * ```js
+   * I.dontSeeInEmailText('undefined');
+   * ```
+   *
+   * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+   */
+  dontSeeInEmailText(text: string) {
+    this._hasCurrentEmail();
+    expect(this._grabEmailText()).not.toContain(normalizeWhitespace(`${text}`).replace(/\s+/g, ' '));
+  }
+
+  /**
+   * Checks that HTML of current email contains an element matching CSS selector.
+   *
+   * ```js
+   * I.seeElementInEmail('a.button[href*="/reset"]');
+   * ```
+   *
+   * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+   */
+  seeElementInEmail(selector: string) {
+    this._hasCurrentEmail();
+    const found = loadHtml(this.currentEmail.body)(selector).length;
+    if (!found) throw new Error(`Element "${selector}" not found in e-mail with subject "${this.currentEmail.subject}"`);
+  }
+
+  /**
+   * Checks that HTML of current email does not contain an element matching CSS selector.
+   *
+   * ```js
+   * I.dontSeeElementInEmail('img:not([alt])');
+   * ```
+   *
+   * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+   */
+  dontSeeElementInEmail(selector: string) {
+    this._hasCurrentEmail();
+    const found = loadHtml(this.currentEmail.body)(selector).length;
+    if (found) throw new Error(`Element "${selector}" was found ${found} times in e-mail with subject "${this.currentEmail.subject}"`);
+  }
+
+  /**
+   * Returns visible text of the first element in current email matching CSS selector.
+   * Whitespace is collapsed.
+   *
+   * ```js
+   * const total = await I.grabTextFromEmail('.order-total');
+   * ```
+   *
+   * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+   *
+   * @returns {string} text of an element.
+   */
+  grabTextFromEmail(selector: string): string {
+    return this._grabElementFromEmail(selector).text().replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Returns attribute value of the first element in current email matching CSS selector.
+   *
+   * ```js
+   * const src = await I.grabAttributeFromEmail('img.logo', 'src');
+   * ```
+   *
+   * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+   *
+   * @returns {string} attribute value or null when element has no such attribute.
+   */
+  grabAttributeFromEmail(selector: string, attr: string): string {
+    const value = this._grabElementFromEmail(selector).attr(attr);
+    return value === undefined ? null : value;
+  }
+
+  _grabElementFromEmail(selector: string): Cheerio<AnyNode> {
+    this._hasCurrentEmail();
+    const element = loadHtml(this.currentEmail.body)(selector).first();
+    if (!element.length) throw new Error(`Element "${selector}" not found in e-mail with subject "${this.currentEmail.subject}"`);
+    return element;
+  }
+
+  _grabEmailText(): string {
+    return htmlToText(this.currentEmail.body).replace(/\s+/g, ' ');
+  }
+
+  /**
+   * Checks that current email matches a stored snapshot, to catch unintended changes of email templates.
+   * A snapshot contains a subject, attachment names, visible text and HTML of an email.
+   * Volatile values are masked: addresses of created mailboxes, one-time codes, tokens in links, uuids, dates and times.
+   *
+   * Snapshots are saved to `__email_snapshots__` directory next to a test file. A missing snapshot is created,
+   * on CI it fails a step instead. A mismatch fails a step with a diff. Run tests with `UPDATE_EMAIL_SNAPSHOTS=1` to overwrite snapshots.
+   *
+   * ```js
+   * await I.waitForEmailMatching({ subject: 'Welcome' });
+   * await I.seeEmailMatchesSnapshot('welcome-email');
+   * // mask an order number
+   * await I.seeEmailMatchesSnapshot('order-confirmation', { mask: [{ pattern: /Order #\d+/, replacement: 'Order #[id]' }] });
+   * ```
+   *
+   * @param {string} name a snapshot name, unique within a directory of a test.
+   * @param {object} [options] `mask` - rules `{ pattern, replacement }` applied before default ones.
+   */
+  async seeEmailMatchesSnapshot(name: string, options: SnapshotOptions = {}): Promise<void> {
+    this._hasCurrentEmail();
+    const email = this.currentEmail;
+    const attachmentNames = [];
+    for (const attachmentId of email.attachments || []) {
+      attachmentNames.push((await this.provider.getAttachmentMetaData(attachmentId, email.id)).name);
+    }
+    const config = this.config.snapshots || {};
+    const snapshot = emailSnapshot(email, attachmentNames, {
+      mask: [...(config.mask || []), ...(options.mask || [])],
+      mailboxes: (this.mailboxes || []).map(m => m.emailAddress),
+    });
+    const dir = config.dir
+      ? path.resolve(getCodeceptDir(), config.dir)
+      : path.join(this.testFile ? path.dirname(this.testFile) : getCodeceptDir(), '__email_snapshots__');
+    const file = snapshotFile(dir, name);
+    const result = await matchSnapshot(file, snapshot, !!process.env[updateSnapshotsEnv], isCI());
+    if (result !== 'matched') this.logger.info(`Snapshot ${file} ${result}`);
+  }
+
+  /**
+  * Checks that email is from a specified address.
+  *
+  * ```js
+  * I.seeEmailIsFrom('user@user.com');
+  * ```
+  *
+  * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+  */
+  seeEmailIsFrom(text: string) {
+    this._hasCurrentEmail();
+    const email = this.currentEmail;
+    expect(email.from).toContain(`${text}`);
+  }
+
+  /**
+   * Checks that current email is sent to an address (listed in `To`).
+   * Addresses are compared case-insensitive. If a display name is passed, like `"John Doe" <john@doe.com>`,
+   * it is checked as well.
+   *
+   * ```js
+   * I.seeEmailIsTo('john@doe.com');
+   * I.seeEmailIsTo('"John Doe" <john@doe.com>');
+   * ```
+   *
+   * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+   */
+  seeEmailIsTo(address: string) {
+    this._seeEmailAddress('to', address);
+  }
+
+  /**
+   * Checks that current email has an address in `Cc`.
+   *
+   * ```js
+   * I.seeEmailIsCc('manager@site.com');
+   * ```
+   *
+   * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+   */
+  seeEmailIsCc(address: string) {
+    this._seeEmailAddress('cc', address);
+  }
+
+  /**
+   * Checks that current email has an address in `Bcc`.
+   * Bcc recipients are known only for emails sent from a mailbox.
+   *
+   * ```js
+   * I.seeEmailIsBcc('archive@site.com');
+   * ```
+   *
+   * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+   */
+  seeEmailIsBcc(address: string) {
+    this._seeEmailAddress('bcc', address);
+  }
+
+  /**
+   * Checks `Reply-To` address of current email.
+   *
+   * ```js
+   * I.seeEmailReplyTo('support@site.com');
+   * ```
+   *
+   * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+   */
+  seeEmailReplyTo(address: string) {
+    this._seeEmailAddress('replyTo', address);
+  }
+
+  /**
+   * Checks display name of a sender of current email.
+   *
+   * ```js
+   * I.seeEmailSenderName('My Shop');
+   * ```
+   *
+   * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+   */
+  seeEmailSenderName(name: string) {
+    this._hasCurrentEmail();
+    const [sender] = this._grabEmailAddresses('from');
+    expect(sender ? sender.name : '').toEqual(`${name}`);
+  }
+
+  /**
+   * Checks that current email is sent exactly to a set of recipients, in any order.
+   * Only passed fields are checked, pass an empty array to check that a field has no recipients.
+   *
+   * ```js
+   * I.seeEmailRecipients({ to: ['john@doe.com', 'jane@doe.com'], cc: [] });
+   * ```
+   *
+   * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+   *
+   * @param {object} recipients `to`, `cc`, `bcc` arrays of addresses.
+   */
+  seeEmailRecipients(recipients: { to?: string[], cc?: string[], bcc?: string[] }) {
+    this._hasCurrentEmail();
+    for (const field of ['to', 'cc', 'bcc']) {
+      if (!recipients[field]) continue;
+      const actual = this._grabEmailAddresses(field).map(a => a.address).sort();
+      const expected = parseAddressList(recipients[field]).map(a => a.address).sort();
+      expect({ [field]: actual }).toEqual({ [field]: expected });
+    }
+  }
+
+  _seeEmailAddress(field: string, address: string) {
+    this._hasCurrentEmail();
+    const expected = parseAddress(`${address}`);
+    const actual = this._grabEmailAddresses(field);
+    const found = actual.some(a => a.address === expected.address && (!expected.name || a.name === expected.name));
+    if (!found) {
+      throw new Error(`Expected "${formatAddress(expected)}" in ${field} of e-mail with subject "${this.currentEmail.subject}". `
+        + (actual.length ? `Found: ${actual.map(formatAddress).join(', ')}` : 'No addresses found.'));
+    }
+  }
+
+  /**
+   * Returns addresses of current email, using parsed recipients provided by MailSlurp when available.
+   */
+  _grabEmailAddresses(field: string): Address[] {
+    const email = this.currentEmail;
+    const recipients = email.recipients && email.recipients[field];
+    if (recipients && recipients.length) {
+      return recipients.map(r => ({ name: r.name || '', address: (r.emailAddress || '').toLowerCase() }));
+    }
+    if (field === 'from' && email.sender && email.sender.emailAddress) {
+      return [{ name: email.sender.name || '', address: email.sender.emailAddress.toLowerCase() }];
+    }
+    return parseAddressList(email[field]);
+  }
+
+  /**
+  * Checks that current email subject equals to text.
+  *
+  * ```js
+  * I.seeEmailSubjectEquals('Restore password');
+  * ```
+  *
+  * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+  */
+  seeEmailSubjectEquals(text: string) {
+    this._hasCurrentEmail();
+    const email = this.currentEmail;
+    expect(email.subject).toEqual(`${text}`);
   }
 
   /**
@@ -371,58 +1477,704 @@ class MailSlurp {
   *
   * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
   */
-  dontSeeEmailSubjectEquals(text) {
+  dontSeeEmailSubjectEquals(text: string) {
+    this._hasCurrentEmail();
+    const email = this.currentEmail;
+    expect(email.subject).not.toEqual(`${text}`);
+
+  }
+
+  /**
+   * Checks that current email has expected number of attachments.
+   *
+   * ```js
+   * I.seeNumberOfEmailAttachments(2);
+   * ```
+   *
+   * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+   */
+  seeNumberOfEmailAttachments(number: number) {
+    this._hasCurrentEmail();
+    const email = this.currentEmail;
+    expect(email.attachments.length).toEqual(number);
+  }
+
+  /**
+   * Checks that current email has an attachment with specified name.
+   *
+   * ```js
+   * I.seeEmailAttachment('ExampleAttachment.pdf');
+   * ```
+   * Be aware that Mailslurp SDK removes special characters in name of attachment,
+   * e.g. "Example-Attachment.pdf" will have name "ExampleAttachment.pdf".
+   *
+   * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+   */
+  async seeEmailAttachment(nameRegExp: string | RegExp): Promise<void> {
+    this._hasCurrentEmail();
+    const email = this.currentEmail;
+    let foundAttachmentNames = []
+    for (let attachmentId of email.attachments) {
+      let attachmentMetaData = await this.provider.getAttachmentMetaData(attachmentId, email.id)
+      if (attachmentMetaData.name.match(new RegExp(nameRegExp))) {
+        // Attachment found. We are finished here.
+        return
+      }
+      foundAttachmentNames.push(attachmentMetaData.name)
+    }
+    expect(
+        `Attachment with name "${nameRegExp}" not found in e-mail with subject "${email.subject}".`
+        + (foundAttachmentNames.length > 0 ?
+            ` Found attachments: "${foundAttachmentNames.join(',')}"`
+            : ' No attachments found at all in e-mail.'
+        )
+    ).toBeFalsy();
+  }
+
+  /**
+   * Returns raw MIME source of current email.
+   *
+   * ```js
+   * const source = await I.grabRawEmail();
+   * ```
+   *
+   * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+   *
+   * @returns {Promise<string>} raw email.
+   */
+  async grabRawEmail(): Promise<string> {
+    this._hasCurrentEmail();
+    const { id } = this.currentEmail;
+    if (!this.rawEmails.has(id)) this.rawEmails.set(id, await this.provider.getRawEmail(id));
+    return this.rawEmails.get(id);
+  }
+
+  /**
+   * Returns a value of a header of current email, parsed from its raw source.
+   * If a header is repeated, the first value is returned.
+   *
+   * ```js
+   * const unsubscribe = await I.grabEmailHeader('List-Unsubscribe');
+   * ```
+   *
+   * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+   *
+   * @param {string} name header name, case-insensitive.
+   * @returns {Promise<string>} header value or null if header is missing.
+   */
+  async grabEmailHeader(name: string): Promise<string> {
+    const message = await this._grabMimeMessage();
+    const value = findHeader(message.headers, name);
+    return value === undefined ? null : value;
+  }
+
+  /**
+   * Checks that current email has a header.
+   * If a value is passed, checks that header contains it. A RegExp can be passed as well.
+   *
+   * ```js
+   * I.seeEmailHeader('List-Unsubscribe');
+   * I.seeEmailHeader('Content-Language', 'en');
+   * I.seeEmailHeader('X-Mailer', /^MyApp/);
+   * ```
+   *
+   * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+   *
+   * @param {string} name header name, case-insensitive.
+   * @param {string|RegExp} [value] expected value.
+   */
+  async seeEmailHeader(name: string, value?: string | RegExp): Promise<void> {
+    const message = await this._grabMimeMessage();
+    const values = findHeaders(message.headers, name);
+    if (!values.length) {
+      throw new Error(`Header "${name}" not found in e-mail with subject "${this.currentEmail.subject}". `
+        + `Found headers: ${message.headers.map(h => h.name).join(', ')}`);
+    }
+    if (value === undefined) return;
+    if (value instanceof RegExp) {
+      expect(values).toContainEqual(expect.stringMatching(value));
+      return;
+    }
+    expect(values).toContainEqual(expect.stringContaining(`${value}`));
+  }
+
+  /**
+   * Checks that current email does not have a header.
+   *
+   * ```js
+   * I.dontSeeEmailHeader('X-Debug');
+   * ```
+   *
+   * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+   *
+   * @param {string} name header name, case-insensitive.
+   */
+  async dontSeeEmailHeader(name: string): Promise<void> {
+    const message = await this._grabMimeMessage();
+    expect(findHeaders(message.headers, name)).toEqual([]);
+  }
+
+  /**
+   * Checks that current email has a MIME part of a content type.
+   *
+   * ```js
+   * I.seeEmailHasPart('text/plain');
+   * I.seeEmailHasPart('text/html');
+   * I.seeEmailHasPart('multipart/alternative');
+   * ```
+   *
+   * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+   *
+   * @param {string} contentType content type of a part.
+   */
+  async seeEmailHasPart(contentType: string): Promise<void> {
+    const parts = flattenParts(await this._grabMimeMessage());
+    if (!parts.some(p => p.contentType === contentType.toLowerCase())) {
+      throw new Error(`Part of ${contentType} type not found in e-mail with subject "${this.currentEmail.subject}". `
+        + `Found parts: ${parts.map(p => p.contentType).join(', ')}`);
+    }
+  }
+
+  /**
+   * Returns content of the first MIME part of a content type in current email.
+   * Text parts are decoded to strings, other parts are returned as Buffer.
+   *
+   * ```js
+   * const text = await I.grabEmailPart('text/plain');
+   * const calendar = await I.grabEmailPart('text/calendar');
+   * ```
+   *
+   * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+   *
+   * @param {string} contentType content type of a part.
+   * @returns {Promise<string|Buffer>} decoded content of a part.
+   */
+  async grabEmailPart(contentType: string): Promise<string | Buffer> {
+    await this.seeEmailHasPart(contentType);
+    const part = flattenParts(await this._grabMimeMessage()).find(p => p.contentType === contentType.toLowerCase());
+    return part.contentType.startsWith('text/') ? partText(part) : part.content;
+  }
+
+  async _grabMimeMessage(): Promise<MimePart> {
+    return parseMime(await this.grabRawEmail());
+  }
+
+  /**
+   * Downloads an attachment of current email.
+   * An attachment is located by its index or by name, matched as a regular expression.
+   *
+   * ```js
+   * const attachment = await I.grabAttachment('invoice.pdf');
+   * attachment.content // Buffer
+   * attachment.contentType // 'application/pdf'
+   * const first = await I.grabAttachment(0);
+   * ```
+   *
+   * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+   *
+   * @param {string|RegExp|number} nameOrIndex attachment name or its index.
+   * @returns {Promise<Attachment>} attachment metadata (`name`, `contentType`, `contentLength`, `id`) and `content` as Buffer.
+   */
+  async grabAttachment(nameOrIndex: string | RegExp | number): Promise<Attachment> {
     this._hasCurrentEmail();
     const email = this.currentEmail;
-    expect(email.subject).not.toEqual(`${text}`);
+    const attachmentIds = email.attachments || [];
+    let meta;
+    if (typeof nameOrIndex === 'number') {
+      if (attachmentIds[nameOrIndex]) meta = await this.provider.getAttachmentMetaData(attachmentIds[nameOrIndex], email.id);
+    } else {
+      const names = [];
+      for (const attachmentId of attachmentIds) {
+        const attachmentMetaData = await this.provider.getAttachmentMetaData(attachmentId, email.id);
+        if (attachmentMetaData.name.match(new RegExp(nameOrIndex))) {
+          meta = attachmentMetaData;
+          break;
+        }
+        names.push(attachmentMetaData.name);
+      }
+      if (!meta && names.length) {
+        throw new Error(`Attachment "${nameOrIndex}" not found in e-mail with subject "${email.subject}". Found attachments: "${names.join(',')}"`);
+      }
+    }
+    if (!meta) throw new Error(`Attachment "${nameOrIndex}" not found in e-mail with subject "${email.subject}". E-mail has ${attachmentIds.length} attachments`);
+    const content = await this.provider.downloadAttachment(meta.id, email.id);
+    return { ...meta, content };
+  }
 
+  /**
+   * Saves an attachment of current email to a file.
+   * Relative paths are resolved from CodeceptJS output directory, by default the attachment name is used.
+   *
+   * ```js
+   * const file = await I.saveAttachment('invoice.pdf');
+   * const file = await I.saveAttachment(0, 'downloads/report.csv');
+   * ```
+   *
+   * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+   *
+   * @param {string|RegExp|number} nameOrIndex attachment name or its index.
+   * @param {string} [filePath] path to save a file to.
+   * @returns {Promise<string>} absolute path of a saved file.
+   */
+  async saveAttachment(nameOrIndex: string | RegExp | number, filePath?: string): Promise<string> {
+    const attachment = await this.grabAttachment(nameOrIndex);
+    const target = path.resolve(getOutputDir(), filePath || attachment.name);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.writeFile(target, attachment.content);
+    this.logger.info(`Attachment ${attachment.name} saved to ${target}`);
+    return target;
   }
 
   /**
-   * Checks that current email has expected number of attachments.
+   * Checks that an attachment of current email has expected content type.
    *
    * ```js
-   * I.seeNumberOfEmailAttachments(2);
+   * I.seeAttachmentContentType('invoice.pdf', 'application/pdf');
+   * ```
+   *
+   * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+   *
+   * @param {string|RegExp|number} nameOrIndex attachment name or its index.
+   * @param {string} contentType expected content type.
+   */
+  async seeAttachmentContentType(nameOrIndex: string | RegExp | number, contentType: string): Promise<void> {
+    const attachment = await this.grabAttachment(nameOrIndex);
+    expect(attachment.contentType).toContain(contentType);
+  }
+
+  /**
+   * Checks size of an attachment of current email in bytes.
+   * Pass a number for exact size or `{ min, max }` object for a range.
+   *
+   * ```js
+   * I.seeAttachmentSize('invoice.pdf', { min: 1024, max: 1024 * 1024 });
+   * I.seeAttachmentSize('report.csv', 2048);
+   * ```
+   *
+   * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+   *
+   * @param {string|RegExp|number} nameOrIndex attachment name or its index.
+   * @param {number|object} size exact size or `{ min, max }` range in bytes.
+   */
+  async seeAttachmentSize(nameOrIndex: string | RegExp | number, size: number | { min?: number, max?: number }): Promise<void> {
+    const attachment = await this.grabAttachment(nameOrIndex);
+    const actual = attachment.content.length;
+    if (typeof size === 'number') {
+      expect(actual).toEqual(size);
+      return;
+    }
+    if (size.min !== undefined) expect(actual).toBeGreaterThanOrEqual(size.min);
+    if (size.max !== undefined) expect(actual).toBeLessThanOrEqual(size.max);
+  }
+
+  /**
+   * Checks that an attachment of current email contains a text.
+   * Works with text, CSV and JSON files, text is extracted from PDF files.
+   * If an attachment is not specified, all attachments are searched.
+   *
+   * ```js
+   * I.seeInAttachment('Total: $10.00', 'invoice.pdf');
+   * I.seeInAttachment('john@doe.com');
+   * ```
+   *
+   * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+   *
+   * @param {string} text text to search for.
+   * @param {string|RegExp|number} [nameOrIndex] attachment name or its index.
+   */
+  async seeInAttachment(text: string, nameOrIndex?: string | RegExp | number): Promise<void> {
+    expect(await this._grabAttachmentTexts(nameOrIndex)).toContainEqual(expect.stringContaining(`${text}`));
+  }
+
+  /**
+   * Checks that an attachment of current email does not contain a text.
+   * If an attachment is not specified, all attachments are searched.
+   *
+   * ```js
+   * I.dontSeeInAttachment('Error', 'report.csv');
    * ```
    *
    * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+   *
+   * @param {string} text text to search for.
+   * @param {string|RegExp|number} [nameOrIndex] attachment name or its index.
    */
-  seeNumberOfEmailAttachments(number) {
+  async dontSeeInAttachment(text: string, nameOrIndex?: string | RegExp | number): Promise<void> {
+    expect(await this._grabAttachmentTexts(nameOrIndex)).not.toContainEqual(expect.stringContaining(`${text}`));
+  }
+
+  async _grabAttachmentTexts(nameOrIndex?: string | RegExp | number): Promise<string[]> {
     this._hasCurrentEmail();
-    const email = this.currentEmail;
-    expect(email.attachments.length).toEqual(number);
+    const indexes = nameOrIndex === undefined
+      ? (this.currentEmail.attachments || []).map((_, i) => i)
+      : [nameOrIndex];
+    const texts = [];
+    for (const index of indexes) {
+      const attachment = await this.grabAttachment(index);
+      const text = attachmentText(attachment);
+      if (text === null && nameOrIndex !== undefined) {
+        throw new Error(`Can't read text from attachment "${attachment.name}" of ${attachment.contentType} type`);
+      }
+      if (text !== null) texts.push(text);
+    }
+    return texts;
   }
 
   /**
-   * Checks that current email has an attachment with specified name.
+   * Returns links from current email.
+   * HTML emails are parsed for `<a>` tags, plain text emails are scanned for urls.
+   * Click-tracking redirects are unwrapped, so `url` property contains a final link.
    *
    * ```js
-   * I.seeEmailAttachment('ExampleAttachment.pdf');
+   * const links = await I.grabLinksFromEmail();
+   * // links which text or url contain 'reset'
+   * const links = await I.grabLinksFromEmail('reset');
+   * // links matching a regular expression
+   * const links = await I.grabLinksFromEmail(/\/verify\?token=/);
    * ```
-   * Be aware that Mailslurp SDK removes special characters in name of attachment,
-   * e.g. "Example-Attachment.pdf" will have name "ExampleAttachment.pdf".
    *
    * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+   *
+   * @param {string|RegExp} [filter] text or pattern to match link text or url.
+   * @returns {EmailLink[]} links as `{ text, href, url }` objects.
    */
-  async seeEmailAttachment(nameRegExp) {
+  grabLinksFromEmail(filter?: string | RegExp): EmailLink[] {
     this._hasCurrentEmail();
-    const email = this.currentEmail;
-    let foundAttachmentNames = []
-    for (let attachmentId of email.attachments) {
-      let attachmentMetaData = await this.mailslurp.getAttachmentMetaData(attachmentId, email.id)
-      if (attachmentMetaData.name.match(new RegExp(nameRegExp))) {
-        // Attachment found. We are finished here.
-        return
+    return extractLinks(this.currentEmail.body).filter(link => linkMatches(link, filter));
+  }
+
+  /**
+   * Returns url of the first link in current email matching link text or url.
+   *
+   * ```js
+   * const url = await I.grabLinkFromEmail('Reset password');
+   * const url = await I.grabLinkFromEmail(/\/verify\?token=/);
+   * ```
+   *
+   * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+   *
+   * @param {string|RegExp} textOrHrefPattern text or pattern to match link text or url.
+   * @returns {string} url of a link with click-tracking redirects unwrapped.
+   */
+  grabLinkFromEmail(textOrHrefPattern: string | RegExp): string {
+    this._hasCurrentEmail();
+    const links = extractLinks(this.currentEmail.body);
+    const link = links.find(l => linkMatches(l, textOrHrefPattern));
+    if (!link) {
+      throw new Error(`Link matching "${textOrHrefPattern}" not found in e-mail with subject "${this.currentEmail.subject}".`
+        + (links.length ? ` Found links: ${links.map(l => `"${l.text}" (${l.url})`).join(', ')}` : ' No links found at all in e-mail.'));
+    }
+    return link.url;
+  }
+
+  /**
+   * Opens a link from current email in a browser.
+   * Requires Playwright, Puppeteer or WebDriver helper to be enabled.
+   *
+   * ```js
+   * await I.waitForEmailMatching({ subject: 'Restore password' });
+   * I.followLinkFromEmail('Reset password');
+   * I.see('Enter new password');
+   * ```
+   *
+   * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+   *
+   * @param {string|RegExp} textOrHrefPattern text or pattern to match link text or url.
+   * @returns {Promise<string>} url which was opened.
+   */
+  async followLinkFromEmail(textOrHrefPattern: string | RegExp): Promise<string> {
+    const url = this.grabLinkFromEmail(textOrHrefPattern);
+    const browser = getBrowserHelper();
+    if (!browser) {
+      throw new Error('No browser helper enabled. Enable Playwright, Puppeteer or WebDriver helper to follow links from emails');
+    }
+    this.logger.debug(`Opening ${url} from email`);
+    await browser.amOnPage(url);
+    return url;
+  }
+
+  /**
+   * Checks that all images of current email can be displayed: images referencing inline parts by `cid:`
+   * have matching attachments, and no images have empty `src`.
+   *
+   * ```js
+   * await I.seeNoBrokenImagesInEmail();
+   * ```
+   */
+  async seeNoBrokenImagesInEmail(): Promise<void> {
+    this._hasCurrentEmail();
+    const broken = findBrokenImages(this.currentEmail.body, await this._grabMimeMessage());
+    if (broken.length) {
+      throw new Error(`Found ${broken.length} broken images in e-mail with subject "${this.currentEmail.subject}": `
+        + `${broken.map(src => `"${src}"`).join(', ')}. Inline images must be attached with matching Content-ID`);
+    }
+  }
+
+  /**
+   * Checks that all links of current email use https, including targets of click-tracking redirects.
+   *
+   * ```js
+   * I.seeAllLinksAreHttps();
+   * ```
+   */
+  seeAllLinksAreHttps() {
+    this._hasCurrentEmail();
+    const insecure = findInsecureLinks(this.currentEmail.body);
+    if (insecure.length) {
+      throw new Error(`Found ${insecure.length} links without https in e-mail with subject "${this.currentEmail.subject}": `
+        + insecure.map(l => `"${l.text}" (${l.href})`).join(', '));
+    }
+  }
+
+  /**
+   * Checks that current email can be unsubscribed from: it has `List-Unsubscribe` header
+   * or a link with "unsubscribe", "opt out" or "manage subscription" in its text or url.
+   *
+   * ```js
+   * const url = await I.seeUnsubscribeLink();
+   * ```
+   *
+   * @returns {Promise<string>} an unsubscribe url.
+   */
+  async seeUnsubscribeLink(): Promise<string> {
+    this._hasCurrentEmail();
+    const url = findUnsubscribeLink(this.currentEmail, await this._grabMimeMessage());
+    if (!url) throw new Error(`No List-Unsubscribe header or unsubscribe link found in e-mail with subject "${this.currentEmail.subject}"`);
+    return url;
+  }
+
+  /**
+   * Checks that all images of current email have `alt` attribute.
+   * Empty `alt` marks a decorative image and is allowed.
+   *
+   * ```js
+   * I.seeImagesHaveAltText();
+   * ```
+   */
+  seeImagesHaveAltText() {
+    this._hasCurrentEmail();
+    const images = findImagesWithoutAlt(this.currentEmail.body);
+    if (images.length) {
+      throw new Error(`Found ${images.length} images without alt text in e-mail with subject "${this.currentEmail.subject}": `
+        + images.map(src => `"${src}"`).join(', '));
+    }
+  }
+
+  /**
+   * Checks current email for common problems and returns a report. Nothing is sent to external services.
+   *
+   * Errors: message larger than 10 MB, empty subject, dangerous tags (`<script>`, `<iframe>`, `<form>` and others),
+   * event handler attributes, `javascript:` links, broken inline images.
+   * Warnings: HTML larger than 102 KB (clipped by Gmail), no plain text part, spammy subject,
+   * images without alt text, links without https.
+   *
+   * ```js
+   * const report = await I.grabEmailLintReport();
+   * expect(report.errors).toEqual([]);
+   * report.warnings.forEach(w => console.log(`${w.rule}: ${w.message}`));
+   * ```
+   *
+   * @returns {Promise<EmailLintReport>} `size` of a message in bytes, `errors` and `warnings` with `rule` and `message`.
+   */
+  async grabEmailLintReport(): Promise<EmailLintReport> {
+    this._hasCurrentEmail();
+    const report = lintEmail(this.currentEmail, await this._grabMimeMessage(), await this.grabRawEmail());
+    this.logger.debug(`Email "${this.currentEmail.subject}" has ${report.errors.length} errors and ${report.warnings.length} warnings`);
+    return report;
+  }
+
+  /**
+   * Returns a one-time code (OTP, verification or magic code) from subject or body of current email.
+   * HTML is stripped before searching. By default, a code of 4 to 8 digits is expected.
+   * Fails when no code or several different codes were found, listing found candidates.
+   *
+   * ```js
+   * await I.waitForEmailMatching({ subject: 'Verification' });
+   * const code = await I.grabOtpFromEmail();
+   * I.fillField('Code', code);
+   *
+   * // 6 digits code placed near "code" word
+   * const code = await I.grabOtpFromEmail({ length: 6, keyword: 'code' });
+   * // alphanumeric code like 'A1B2C3'
+   * const code = await I.grabOtpFromEmail({ alphanumeric: true, length: 6 });
+   * // custom pattern, search only in subject
+   * const code = await I.grabOtpFromEmail({ pattern: /\d{3}-\d{3}/, in: 'subject' });
+   * ```
+   *
+   * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+   *
+   * @param {OtpOptions} [options] `length`, `alphanumeric`, `keyword`, `pattern` and `in` ('subject' or 'body') options.
+   * @returns {string} a code found.
+   */
+  grabOtpFromEmail(options: OtpOptions = {}): string {
+    this._hasCurrentEmail();
+    const otp = findOtp(this.currentEmail, options);
+    this.logger.addSecret(otp);
+    return otp;
+  }
+
+  /**
+   * Checks that current email contains exactly one one-time code.
+   * Accepts same options as `grabOtpFromEmail`.
+   *
+   * ```js
+   * I.seeOtpInEmail();
+   * I.seeOtpInEmail({ length: 6, keyword: 'code' });
+   * ```
+   *
+   * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+   *
+   * @param {OtpOptions} [options] `length`, `alphanumeric`, `keyword`, `pattern` and `in` ('subject' or 'body') options.
+   */
+  seeOtpInEmail(options: OtpOptions = {}) {
+    this._hasCurrentEmail();
+    findOtp(this.currentEmail, options);
+  }
+
+  /**
+   * Waits for emails matching a query in current mailbox.
+   * Conditions MailSlurp can't match are checked on received emails,
+   * and if not enough emails match, waiting continues for the next ones.
+   * Emails ignored by `ignoreReceivedEmails` are skipped, with `unread` emails read before are skipped too.
+   */
+  async _waitForMatchingEmails(query: EmailQuery, count: number, timeout: number, unread = false): Promise<Email[]> {
+    const { matchOptions, clientSide } = compileQuery(query);
+    const inboxId = this.currentMailbox.id;
+    const marker = this.sinceMarkers.get(inboxId);
+    // an email becomes read when it is fetched, so it is checked once
+    const unreadIds = new Set<string>();
+    const isNew = (p: EmailPreview) => {
+      if (marker && marker.emailIds.includes(p.id)) return false;
+      if (unread && !p.read) unreadIds.add(p.id);
+      return !unread || unreadIds.has(p.id);
+    };
+    const emails = new Map<string, Email>();
+    const fetchEmails = (previews: EmailPreview[]) => Promise.all(previews.map(async p => {
+      if (!emails.has(p.id)) emails.set(p.id, await this.provider.getEmail(p.id));
+      return emails.get(p.id);
+    }));
+
+    const startedAt = Date.now();
+    const timeoutError = () => new EmailWaitTimeoutError(
+      `Timed out after ${timeout}ms waiting for ${count} ${unread ? 'unread ' : ''}emails matching ${describeQuery(query)} in ${this.currentMailbox.emailAddress}`,
+      { query, elapsed: Date.now() - startedAt },
+    );
+
+    if (!clientSide && !marker && !unread) {
+      try {
+        return await fetchEmails(await this._providerWaitForMatchingEmails(matchOptions, count, inboxId, timeout));
+      } catch (err) {
+        if (err instanceof EmailWaitTimeoutError) throw timeoutError();
+        throw err;
       }
-      foundAttachmentNames.push(attachmentMetaData.name)
     }
-    expect(
-        `Attachment with name "${nameRegExp}" not found in e-mail with subject "${email.subject}".`
-        + (foundAttachmentNames.length > 0 ?
-            ` Found attachments: "${foundAttachmentNames.join(',')}"`
-            : ' No attachments found at all in e-mail.'
-        )
-    ).toBeFalsy();
+
+    const deadline = startedAt + timeout;
+    let expected = count;
+    while (Date.now() < deadline) {
+      let previews;
+      try {
+        previews = await this._providerWaitForMatchingEmails(matchOptions, expected, inboxId, deadline - Date.now());
+      } catch (err) {
+        if (Date.now() < deadline && !(err instanceof EmailWaitTimeoutError)) throw err;
+        break;
+      }
+      let matching: Email[] = [];
+      if (unread) {
+        // fetching marks an email read, so unread emails are fetched only until enough of them match,
+        // and fetched emails which don't match are marked unread again
+        for (const preview of previews.filter(isNew)) {
+          if (matching.length >= count) break;
+          const fetched = emails.has(preview.id);
+          const [email] = await fetchEmails([preview]);
+          if (matchesQuery(email, query)) matching.push(email);
+          else if (!fetched) await this.provider.markAsRead(email.id, false);
+        }
+      } else {
+        matching = (await fetchEmails(previews.filter(isNew))).filter(e => matchesQuery(e, query));
+      }
+      if (matching.length >= count) return matching.slice(0, count);
+      expected = previews.length + count - matching.length;
+    }
+    throw timeoutError();
+  }
+
+  /**
+   * Registers a webhook for a mailbox once per test. Returns false when waits in a mailbox have to poll.
+   */
+  async _watchMailbox(mailboxId: string): Promise<boolean> {
+    if (!this.receiver) return false;
+    if (!this.webhookIds.has(mailboxId)) {
+      try {
+        this.webhookIds.set(mailboxId, await this.provider.createWebhook(mailboxId, this.receiver.url));
+        this.logger.debug(`Registered webhook for ${mailboxId}`);
+      } catch (err) {
+        this.logger.warn(`Failed to register webhook for ${mailboxId}, falling back to polling: ${err.message}`);
+        this.webhookIds.set(mailboxId, null);
+      }
+    }
+    return !!this.webhookIds.get(mailboxId);
+  }
+
+  /**
+   * Waits for a value of `check` re-checked on webhook events of a mailbox,
+   * or runs a provider wait when a mailbox is not watched.
+   */
+  async _waitWithWebhook<T>(mailboxId: string, timeout: number, description: string, check: () => Promise<T | undefined>, wait: () => Promise<T>): Promise<T> {
+    if (!await this._watchMailbox(mailboxId)) return wait();
+    return this.receiver.waitFor(mailboxId, check, timeout, description);
+  }
+
+  _providerWaitForLatestEmail(mailboxId: string, timeout: number): Promise<Email> {
+    return this._waitWithWebhook(mailboxId, timeout, 'an email', async () => {
+      const latest = sortByReceivedTime(await this.provider.getEmails(mailboxId)).pop();
+      return latest && this.provider.getEmail(latest.id);
+    }, () => this.provider.waitForLatestEmail(mailboxId, timeout));
+  }
+
+  _providerWaitForNthEmail(mailboxId: string, index: number, timeout: number): Promise<Email> {
+    return this._waitWithWebhook(mailboxId, timeout, `email #${index}`, async () => {
+      const nth = sortByReceivedTime(await this.provider.getEmails(mailboxId))[index];
+      return nth && this.provider.getEmail(nth.id);
+    }, () => this.provider.waitForNthEmail(mailboxId, index, timeout));
+  }
+
+  _providerWaitForMatchingEmails(matchOptions: MatchOptions, count: number, mailboxId: string, timeout: number): Promise<EmailPreview[]> {
+    return this._waitWithWebhook(mailboxId, timeout, `${count} matching emails`, async () => {
+      const matching = (await this.provider.getEmails(mailboxId)).filter(p => matchesOptions(p as Email, matchOptions));
+      return matching.length >= count ? matching : undefined;
+    }, () => this.provider.waitForMatchingEmails(matchOptions, count, mailboxId, timeout));
+  }
+
+  /**
+   * Opens current email in a browser, so it can be checked with browser steps,
+   * screenshots and visual testing plugins. Inline images attached to an email are displayed.
+   * Email is saved as HTML file into output directory and opened by Playwright, Puppeteer or WebDriver helper.
+   *
+   * ```js
+   * await I.waitForEmailMatching({ subject: 'Welcome' });
+   * await I.openEmailInBrowser();
+   * I.see('Welcome to our service');
+   * I.click('Confirm email');
+   * I.saveScreenshot('welcome-email.png');
+   * ```
+   *
+   * Requires an opened email. Use either `waitForEmail*` methods to open. Or open manually with `I.openEmail()` method.
+   *
+   * @returns {Promise<string>} path to a saved HTML file.
+   */
+  async openEmailInBrowser(): Promise<string> {
+    this._hasCurrentEmail();
+    const browser = getBrowserHelper();
+    if (!browser) {
+      throw new Error('No browser helper enabled. Enable Playwright, Puppeteer or WebDriver helper to open emails in browser');
+    }
+    const html = renderEmailHtml(this.currentEmail.body, await this._grabMimeMessage());
+    const file = path.join(getOutputDir(), 'emails', `${this.currentEmail.id}.html`);
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, html);
+    await browser.amOnPage(pathToFileURL(file).href);
+    return file;
   }
 
   _hasCurrentEmail() {
@@ -430,26 +2182,75 @@ class MailSlurp {
   }
 }
 
+// types of step arguments and results, like `MailSlurp.EmailQuery`
+namespace MailSlurp {
+  export type Configuration = {
+    apiKey?: string,
+    timeout?: number,
+    pollInterval?: number,
+    debug?: boolean,
+    logLevel?: LogLevel,
+    provider?: 'mailslurp' | 'smtp' | 'memory' | MailProvider,
+    smtp?: SmtpProviderOptions,
+    memory?: LocalProviderOptions,
+    retry?: RetryOptions,
+    mailbox?: MailboxOptions,
+    pool?: {
+      size: number,
+      dir?: string,
+      leaseTimeout?: number,
+      timeout?: number,
+      keepLeaseOnFailure?: boolean,
+    },
+    cleanup?: 'always' | 'never' | 'onSuccess',
+    attachEmails?: 'failed' | 'always' | 'never',
+    snapshots?: {
+      dir?: string,
+      mask?: MaskRule[],
+    },
+    webhook?: WebhookOptions,
+  }
+
+  /**
+   * State of a mailbox at some moment, see `grabMailboxMarker`
+   */
+  export type MailboxMarker = {
+    mailboxId: string,
+    emailIds: string[],
+    time: Date,
+  }
+
+  export type Email = import('mailslurp-client').Email;
+  export type Inbox = import('./lib/mailboxes').Inbox;
+  export type MailboxOptions = import('./lib/mailboxes').MailboxOptions;
+  export type EmailQuery = import('./lib/query').EmailQuery;
+  export type Matcher = import('./lib/query').Matcher;
+  export type OutgoingEmail = import('./lib/compose').OutgoingEmail;
+  export type EmailFixture = import('./lib/providers').EmailFixture;
+  export type Attachment = import('./lib/attachments').Attachment;
+  export type EmailLink = import('./lib/links').EmailLink;
+  export type OtpOptions = import('./lib/otp').OtpOptions;
+  export type RetryOptions = import('./lib/providers').RetryOptions;
+  export type MailProvider = import('./lib/providers').MailProvider;
+  export type LogLevel = import('./lib/Output').LogLevel;
+  export type MaskRule = import('./lib/snapshots').MaskRule;
+  export type EmailLintReport = import('./lib/lint').EmailLintReport;
+  export type LintIssue = import('./lib/lint').LintIssue;
+  export type WebhookOptions = import('./lib/webhooks').WebhookOptions;
+}
+
 export = MailSlurp;
 
-function printEmailDebug(email) {
-  if (this.config.debug) debug(`Received email from ${email.from} with ${email.subject}`);
+// keeps an opened email for test artifacts
+function recordEmail(this: MailSlurp, email: Email) {
+  this.logger.debug(`Received email from ${email.from} with ${email.subject}`);
+  if (this.openedEmails && !this.openedEmails.some(e => e.id === email.id)) this.openedEmails.push(email);
 }
 
-function matchEmailBy(options) {
-  return { matches: Object.entries(options).map(([key, value]) => {
-    if (value[0] === '=') {
-      return {
-        field: key.toUpperCase(),
-        value,
-        should: 'EQUAL'
-      }
-    }
-    return {
-      field: key.toUpperCase(),
-      value: value,
-      should: 'CONTAIN'
-    }
-  })};
+function describeEmails(emails: Email[]) {
+  return emails.map(e => `"${e.subject}" from ${e.from}`).join(', ');
 }
 
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,225 @@
+import fs from 'fs';
+import path from 'path';
+import type { CreateInboxDto, InboxDto } from 'mailslurp-client';
+import { MailboxNotFoundError } from './errors';
+import type { MailProvider } from './providers';
+
+export type MailboxPoolOptions = {
+  // number of mailboxes to provision
+  size: number,
+  // directory shared by parallel workers to store a pool and its leases
+  dir: string,
+  // a lease not refreshed for this time is considered abandoned by a crashed run, in milliseconds
+  leaseTimeout?: number,
+  // how long to wait for a free mailbox when all of them are leased, in milliseconds
+  timeout?: number,
+  pollInterval?: number,
+  // options of created mailboxes, called for each of them
+  inboxOptions?: () => CreateInboxDto,
+}
+
+type PoolEntry = {
+  id: string,
+  emailAddress: string,
+}
+
+const lockTimeout = 30000;
+
+/**
+ * A set of mailboxes reused by tests.
+ * Mailboxes are listed in `pool.json` file, and a mailbox is leased by creating
+ * `leases/<id>` directory. Directory creation is atomic, so workers of `run-workers`
+ * sharing the same pool directory never lease the same mailbox.
+ * A held lease is touched periodically, so only leases of stopped workers become stale.
+ */
+export class MailboxPool {
+  private provider: MailProvider;
+  private options: MailboxPoolOptions;
+  // timers refreshing held leases, by mailbox id
+  private heartbeats = new Map<string, NodeJS.Timeout>();
+
+  constructor(provider: MailProvider, options: MailboxPoolOptions) {
+    if (!options.size || options.size < 1) {
+      throw new Error(`Mailbox pool size must be a positive number, got ${options.size}`);
+    }
+    this.provider = provider;
+    this.options = { leaseTimeout: 600000, timeout: 60000, pollInterval: 1000, ...options };
+  }
+
+  /**
+   * Creates missing mailboxes, so a pool has `size` of them.
+   * Safe to call from every worker, mailboxes are created only once.
+   */
+  async provision(): Promise<void> {
+    await this.withLock(async () => {
+      const entries = this.readEntries();
+      while (entries.length < this.options.size) {
+        const inbox = await this.provider.createInbox(this.options.inboxOptions && this.options.inboxOptions());
+        entries.push({ id: inbox.id, emailAddress: inbox.emailAddress });
+      }
+      this.writeEntries(entries);
+    });
+  }
+
+  /**
+   * Leases a free mailbox and empties it.
+   * Waits for a mailbox to be released when all of them are in use.
+   */
+  async lease(): Promise<InboxDto> {
+    const deadline = Date.now() + this.options.timeout;
+    for (;;) {
+      for (const entry of this.readEntries()) {
+        if (!this.acquire(entry.id)) continue;
+        let inbox: InboxDto;
+        try {
+          inbox = await this.provider.getInbox(entry.id);
+          await this.provider.emptyInbox(inbox.id);
+        } catch (err) {
+          this.unlock(entry.id);
+          if (!(err instanceof MailboxNotFoundError)) throw err;
+          // a mailbox was deleted outside of a pool
+          await this.withLock(async () => this.writeEntries(this.readEntries().filter(e => e.id !== entry.id)));
+          continue;
+        }
+        return inbox;
+      }
+      if (!this.readEntries().length) {
+        throw new Error(`Mailbox pool in ${this.options.dir} is empty. Mailboxes are provisioned before a suite starts`);
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out after ${this.options.timeout}ms waiting for a free mailbox in a pool of ${this.options.size}. Increase pool size or reduce number of workers`);
+      }
+      await sleep(this.options.pollInterval);
+    }
+  }
+
+  /**
+   * Returns a mailbox to a pool. Emails are kept unless `empty` is set,
+   * anyway they are removed when a mailbox is leased next time.
+   */
+  async release(inboxId: string, { empty = false } = {}): Promise<void> {
+    if (empty) await this.provider.emptyInbox(inboxId);
+    this.unlock(inboxId);
+  }
+
+  /**
+   * Keeps a mailbox leased without refreshing its lease,
+   * so other workers can lease it again after `leaseTimeout`.
+   */
+  hold(inboxId: string) {
+    this.stopHeartbeat(inboxId);
+  }
+
+  /**
+   * Deletes all pooled mailboxes and pool files.
+   */
+  async destroy(): Promise<void> {
+    await this.withLock(async () => {
+      for (const entry of this.readEntries()) {
+        await this.provider.deleteInbox(entry.id).catch(() => null);
+      }
+      this.writeEntries([]);
+    });
+    for (const inboxId of [...this.heartbeats.keys()]) this.stopHeartbeat(inboxId);
+    fs.rmSync(this.options.dir, { recursive: true, force: true });
+  }
+
+  private acquire(inboxId: string): boolean {
+    const lease = this.leasePath(inboxId);
+    fs.mkdirSync(path.dirname(lease), { recursive: true });
+    try {
+      fs.mkdirSync(lease);
+      this.startHeartbeat(inboxId);
+      return true;
+    } catch (err) {
+      if (err.code !== 'EEXIST') throw err;
+    }
+    if (!isStale(lease, this.options.leaseTimeout)) return false;
+    // take over an abandoned lease, renaming is atomic so only one worker succeeds
+    const stale = `${lease}.${process.pid}.${Date.now()}.stale`;
+    try {
+      fs.renameSync(lease, stale);
+    } catch (err) {
+      return false;
+    }
+    fs.rmSync(stale, { recursive: true, force: true });
+    return this.acquire(inboxId);
+  }
+
+  private startHeartbeat(inboxId: string) {
+    const lease = this.leasePath(inboxId);
+    const timer = setInterval(() => {
+      const now = new Date();
+      try {
+        fs.utimesSync(lease, now, now);
+      } catch (err) {
+        // a lease was removed, nothing to refresh
+      }
+    }, Math.max(this.options.leaseTimeout / 3, 10));
+    // a pending refresh must not keep a finished run alive
+    timer.unref();
+    this.heartbeats.set(inboxId, timer);
+  }
+
+  private stopHeartbeat(inboxId: string) {
+    clearInterval(this.heartbeats.get(inboxId));
+    this.heartbeats.delete(inboxId);
+  }
+
+  private unlock(inboxId: string) {
+    this.stopHeartbeat(inboxId);
+    fs.rmSync(this.leasePath(inboxId), { recursive: true, force: true });
+  }
+
+  private leasePath(inboxId: string): string {
+    return path.join(this.options.dir, 'leases', inboxId);
+  }
+
+  private readEntries(): PoolEntry[] {
+    try {
+      return JSON.parse(fs.readFileSync(path.join(this.options.dir, 'pool.json'), 'utf8'));
+    } catch (err) {
+      return [];
+    }
+  }
+
+  private writeEntries(entries: PoolEntry[]) {
+    const file = path.join(this.options.dir, 'pool.json');
+    // write and rename, so other workers never read a partially written file
+    fs.writeFileSync(`${file}.${process.pid}`, JSON.stringify(entries, null, 2));
+    fs.renameSync(`${file}.${process.pid}`, file);
+  }
+
+  private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const lock = path.join(this.options.dir, 'pool.lock');
+    fs.mkdirSync(this.options.dir, { recursive: true });
+    for (;;) {
+      try {
+        fs.mkdirSync(lock);
+        break;
+      } catch (err) {
+        if (err.code !== 'EEXIST') throw err;
+        if (isStale(lock, lockTimeout)) fs.rmSync(lock, { recursive: true, force: true });
+        else await sleep(100);
+      }
+    }
+    try {
+      return await fn();
+    } finally {
+      fs.rmSync(lock, { recursive: true, force: true });
+    }
+  }
+}
+
+function isStale(dir: string, timeout: number): boolean {
+  try {
+    return Date.now() - fs.statSync(dir).mtimeMs > timeout;
+  } catch (err) {
+    // removed in between, try again
+    return true;
+  }
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
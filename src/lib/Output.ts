@@ -1,14 +1,140 @@
 import colors from 'chalk';
+import { getCodecept } from './codecept';
+import { urlRegExp } from './links';
+
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug';
+
+export type LogEntry = {
+  level: LogLevel,
+  message: string,
+  time: Date,
+  // step which produced a message
+  step?: string,
+  // duration of a step in milliseconds
+  duration?: number,
+}
+
+// emitted by CodeceptJS event dispatcher for every printed entry
+export const logEvent = 'mailslurp.log';
+
+const levels: LogLevel[] = ['error', 'warn', 'info', 'debug'];
 
 const styles = {
   error: colors.bgRed.white.bold,
-  log: colors.grey,
+  warn: colors.yellow,
+  info: colors.cyan,
+  debug: colors.grey,
 };
 
-export function debug(msg) {
-  console.debug(styles.log(msg));
+const mask = '***';
+
+// query params which usually carry a secret
+const secretParams = /token|code|key|secret|sig|signature|auth|otp|hash|password|session|ticket|nonce/i;
+// a code following a keyword, like "code: 123456" or "your PIN is 8472"
+const otpNearKeyword = /\b(code|otp|pin|passcode|password|verification)\b([^\d\n]{0,20}?)\b((?=[A-Za-z]*\d)[A-Za-z0-9]{4,10})\b/gi;
+
+/**
+ * Prints helper messages through CodeceptJS output, falls back to console outside of CodeceptJS.
+ * Messages are redacted: registered secrets, one-time codes and tokens in urls are masked.
+ */
+export class Logger {
+  level: LogLevel;
+  private secrets = new Set<string>();
+
+  constructor(options: { level?: LogLevel, secrets?: string[] } = {}) {
+    const level = options.level || 'warn';
+    if (!levels.includes(level)) {
+      throw new Error(`Unknown log level "${level}". Use one of: ${levels.join(', ')}`);
+    }
+    this.level = level;
+    for (const secret of options.secrets || []) this.addSecret(secret);
+  }
+
+  /**
+   * Registers a value which is masked in all following messages.
+   */
+  addSecret(secret: string) {
+    if (secret && `${secret}`.length >= 4) this.secrets.add(`${secret}`);
+  }
+
+  error(message: string, details: Partial<LogEntry> = {}) {
+    this.log('error', message, details);
+  }
+
+  warn(message: string, details: Partial<LogEntry> = {}) {
+    this.log('warn', message, details);
+  }
+
+  info(message: string, details: Partial<LogEntry> = {}) {
+    this.log('info', message, details);
+  }
+
+  debug(message: string, details: Partial<LogEntry> = {}) {
+    this.log('debug', message, details);
+  }
+
+  /**
+   * Runs a step and logs its duration, both when it succeeds and fails.
+   *
+   * ```js
+   * const email = await logger.timed('waitForLatestEmail', () => provider.waitForLatestEmail(id, timeout));
+   * ```
+   */
+  async timed<T>(step: string, fn: () => Promise<T>): Promise<T> {
+    const startedAt = Date.now();
+    try {
+      const result = await fn();
+      const duration = Date.now() - startedAt;
+      this.debug(`${step} finished in ${duration}ms`, { step, duration });
+      return result;
+    } catch (err) {
+      const duration = Date.now() - startedAt;
+      this.info(`${step} failed after ${duration}ms: ${err.message}`, { step, duration });
+      throw err;
+    }
+  }
+
+  redact(message: string): string {
+    let text = `${message}`;
+    for (const secret of this.secrets) text = text.split(secret).join(mask);
+    return redactLinks(text).replace(otpNearKeyword, (_, keyword, separator) => `${keyword}${separator}${mask}`);
+  }
+
+  private log(level: LogLevel, message: string, details: Partial<LogEntry>) {
+    if (levels.indexOf(level) > levels.indexOf(this.level)) return;
+    const entry: LogEntry = { ...details, level, message: this.redact(message), time: new Date() };
+    const codecept = getCodecept();
+    if (codecept && codecept.output) {
+      if (level === 'error') codecept.output.error(entry.message);
+      else codecept.output.print(styles[level](`  [MailSlurp] ${entry.message}`));
+      if (codecept.event && codecept.event.dispatcher) codecept.event.dispatcher.emit(logEvent, entry);
+      return;
+    }
+    if (level === 'error') console.error(styles.error(entry.message));
+    else console.debug(styles[level](entry.message));
+  }
+}
+
+/**
+ * Masks values of secret query params and long random path segments in urls.
+ */
+export function redactLinks(text: string): string {
+  return text.replace(urlRegExp, href => {
+    let url: URL;
+    try {
+      url = new URL(href);
+    } catch (err) {
+      return href;
+    }
+    const path = url.pathname.split('/').map(segment => isToken(segment) ? mask : segment).join('/');
+    const query = [...url.searchParams.entries()]
+      .map(([name, value]) => `${name}=${secretParams.test(name) || isToken(value) ? mask : encodeURIComponent(value)}`)
+      .join('&');
+    return `${url.origin}${path}${query ? `?${query}` : ''}`;
+  });
 }
 
-export function error(msg) {
-  console.error(styles.error(msg));
+// long strings mixing letters and digits look like tokens
+function isToken(value: string): boolean {
+  return value.length >= 16 && /\d/.test(value) && /[A-Za-z]/.test(value) && /^[\w.~%-]+$/.test(value);
 }
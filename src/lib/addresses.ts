@@ -0,0 +1,50 @@
+export type Address = {
+  name: string,
+  address: string,
+}
+
+/**
+ * Parses RFC 5322 address lists, like `"Doe, John" <john@doe.com>, jane@doe.com`.
+ * Accepts a string or an array of strings, each of them may contain several addresses.
+ */
+export function parseAddressList(value: string | string[]): Address[] {
+  if (!value) return [];
+  return [].concat(value).flatMap(splitAddresses).map(parseAddress).filter(a => a.address.includes('@'));
+}
+
+export function parseAddress(value: string): Address {
+  const text = value.replace(/\([^()]*\)/g, '').trim();
+  const angle = /^(.*?)<([^<>]*)>\s*$/.exec(text);
+  if (!angle) return { name: '', address: text.replace(/^"|"$/g, '').trim().toLowerCase() };
+  const name = angle[1].trim().replace(/^"([\s\S]*)"$/, '$1').replace(/\\(.)/g, '$1');
+  return { name, address: angle[2].trim().toLowerCase() };
+}
+
+export function formatAddress(address: Address): string {
+  return address.name ? `"${address.name}" <${address.address}>` : address.address;
+}
+
+function splitAddresses(value: string): string[] {
+  const result = [];
+  let current = '';
+  let quoted = false;
+  let angle = false;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i];
+    if (ch === '\\' && quoted) {
+      current += ch + (value[++i] || '');
+      continue;
+    }
+    if (ch === '"') quoted = !quoted;
+    if (!quoted && ch === '<') angle = true;
+    if (!quoted && ch === '>') angle = false;
+    if ((ch === ',' || ch === ';') && !quoted && !angle) {
+      result.push(current);
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+  result.push(current);
+  return result.map(v => v.trim()).filter(Boolean);
+}
@@ -0,0 +1,47 @@
+import fs from 'fs';
+import path from 'path';
+import type { Email } from 'mailslurp-client';
+import { parseMime } from './mime';
+import { renderEmailHtml } from './preview';
+
+export type EmailArtifact = {
+  email: Email,
+  // path to a saved raw source
+  eml: string,
+  // path to a saved HTML view
+  html: string,
+}
+
+/**
+ * Saves a raw source of an email as `.eml` file and its rendered view as `.html` file.
+ * HTML view starts with a table of sender, recipients and subject, so it is readable in reports.
+ */
+export async function saveEmailArtifact(email: Email, raw: string, dir: string, name: string): Promise<EmailArtifact> {
+  await fs.promises.mkdir(dir, { recursive: true });
+  const eml = path.join(dir, `${name}.eml`);
+  const html = path.join(dir, `${name}.html`);
+  await fs.promises.writeFile(eml, raw || '');
+  const summary = [
+    ['From', email.from],
+    ['To', [].concat(email.to || []).join(', ')],
+    ['Cc', [].concat(email.cc || []).join(', ')],
+    ['Subject', email.subject],
+    ['Received', email.createdAt ? new Date(email.createdAt).toISOString() : ''],
+  ].filter(([, value]) => value).map(([name, value]) => `<tr><th align="left">${name}</th><td>${escapeHtml(value)}</td></tr>`);
+  const header = `<table style="font-family:sans-serif;font-size:13px;border-bottom:1px solid #ccc;margin-bottom:12px">${summary.join('')}</table>`;
+  const body = renderEmailHtml(email.body, await parseMime(raw || ''));
+  await fs.promises.writeFile(html, /<body[^>]*>/i.test(body) ? body.replace(/<body[^>]*>/i, tag => `${tag}${header}`) : `${header}${body}`);
+  return { email, eml, html };
+}
+
+/**
+ * Returns a file name for an email, built from its position in a test and a subject.
+ */
+export function artifactName(email: Email, index: number): string {
+  const subject = (email.subject || 'email').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40);
+  return `${index + 1}-${subject || 'email'}`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
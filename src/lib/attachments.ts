@@ -0,0 +1,100 @@
+import zlib from 'zlib';
+import type { AttachmentMetaData } from 'mailslurp-client';
+
+export type Attachment = AttachmentMetaData & {
+  content: Buffer,
+}
+
+const textTypes = /^text\/|\/(json|csv|xml|javascript)|\+(json|xml)$/i;
+const textExtensions = /\.(txt|csv|tsv|json|xml|html?|md|ics|log)$/i;
+
+/**
+ * Returns text content of an attachment.
+ * Text, CSV, JSON and XML files are decoded as UTF-8, text is extracted from PDF files.
+ * Returns null for other binary files.
+ */
+export function attachmentText(attachment: Attachment): string {
+  if (isPdf(attachment)) return pdfToText(attachment.content);
+  if (textTypes.test(attachment.contentType || '') || textExtensions.test(attachment.name || '')) {
+    return attachment.content.toString('utf8');
+  }
+  return null;
+}
+
+function isPdf(attachment: Attachment): boolean {
+  return /pdf/i.test(attachment.contentType || '')
+    || /\.pdf$/i.test(attachment.name || '')
+    || attachment.content.subarray(0, 5).toString('latin1') === '%PDF-';
+}
+
+// text showing operators: [(..) 12 (..)] TJ, (..) Tj, <..> Tj, (..) ' and (..) "; and line-breaking operators
+const pdfTextOperators = /\[((?:[^\]\\]|\\.)*)\]\s*TJ|(\((?:[^()\\]|\\.)*\)|<[0-9A-Fa-f\s]*>)\s*(?:Tj|'|")|\b(T\*|Td|TD|ET)\b/g;
+const pdfStrings = /\((?:[^()\\]|\\.)*\)|<[0-9A-Fa-f\s]*>|-?\d+(?:\.\d+)?/g;
+
+/**
+ * Extracts text from content streams of a PDF file.
+ * Covers PDFs generated by reporting tools with standard fonts,
+ * text drawn with embedded CID fonts can't be decoded.
+ */
+export function pdfToText(content: Buffer): string {
+  const source = content.toString('latin1');
+  const lines: string[] = [];
+  let line = '';
+  const pushLine = () => {
+    line = line.replace(/\s+/g, ' ').trim();
+    if (line) lines.push(line);
+    line = '';
+  };
+  const streamStart = /stream\r?\n/g;
+  let match;
+  while ((match = streamStart.exec(source)) !== null) {
+    const start = match.index + match[0].length;
+    const end = source.indexOf('endstream', start);
+    if (end < 0) break;
+    const dictionary = source.slice(source.lastIndexOf('obj', match.index), match.index);
+    let data = Buffer.from(source.slice(start, end), 'latin1');
+    if (/\/FlateDecode/.test(dictionary)) {
+      try {
+        data = zlib.inflateSync(data, { finishFlush: zlib.constants.Z_SYNC_FLUSH });
+      } catch (err) {
+        continue;
+      }
+    } else if (/\/Filter/.test(dictionary)) {
+      continue;
+    }
+    const stream = data.toString('latin1');
+    let op;
+    while ((op = pdfTextOperators.exec(stream)) !== null) {
+      if (op[3]) {
+        pushLine();
+      } else if (op[1] !== undefined) {
+        for (const part of op[1].match(pdfStrings) || []) {
+          // large negative kerning in TJ array is a space between words
+          if (/^-?\d/.test(part)) {
+            if (parseFloat(part) < -200) line += ' ';
+          } else {
+            line += decodePdfString(part);
+          }
+        }
+      } else {
+        line += decodePdfString(op[2]);
+      }
+    }
+    streamStart.lastIndex = end;
+  }
+  pushLine();
+  return lines.join('\n');
+}
+
+function decodePdfString(value: string): string {
+  if (value[0] === '<') {
+    const hex = value.slice(1, -1).replace(/\s/g, '');
+    return Buffer.from(hex.length % 2 ? hex + '0' : hex, 'hex').toString('latin1');
+  }
+  return value.slice(1, -1).replace(/\\(\d{1,3}|.|\r?\n)/g, (_, ch) => {
+    if (/^\d/.test(ch)) return String.fromCharCode(parseInt(ch, 8));
+    const escapes = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+    if (escapes[ch]) return escapes[ch];
+    return /\r?\n/.test(ch) ? '' : ch;
+  });
+}
@@ -0,0 +1,52 @@
+import path from 'path';
+
+const browserHelpers = ['Playwright', 'Puppeteer', 'WebDriver'];
+
+/**
+ * Returns CodeceptJS public API: a global object set by a runner,
+ * or a required module when globals are disabled.
+ */
+export function getCodecept() {
+  if ((global as any).codeceptjs) return (global as any).codeceptjs;
+  try {
+    return require('codeceptjs');
+  } catch (err) {
+    return null;
+  }
+}
+
+/**
+ * Returns CodeceptJS output directory.
+ */
+export function getOutputDir(): string {
+  return (global as any).output_dir || path.resolve('output');
+}
+
+/**
+ * Returns a directory of CodeceptJS config, relative paths in tests are resolved from it.
+ */
+export function getCodeceptDir(): string {
+  return (global as any).codecept_dir || process.cwd();
+}
+
+/**
+ * Returns the first enabled browser helper (Playwright, Puppeteer or WebDriver)
+ * or null when none of them is enabled in a config.
+ */
+export function getBrowserHelper() {
+  const codecept = getCodecept();
+  if (!codecept || !codecept.container) return null;
+  const helpers = codecept.container.helpers() || {};
+  const name = browserHelpers.find(h => helpers[h]);
+  return name ? helpers[name] : null;
+}
+
+/**
+ * Returns enabled Allure plugin which can add attachments to a report, or null.
+ */
+export function getAllure() {
+  const codecept = getCodecept();
+  if (!codecept || !codecept.container || !codecept.container.plugins) return null;
+  const allure = codecept.container.plugins('allure');
+  return allure && typeof allure.addAttachment === 'function' ? allure : null;
+}
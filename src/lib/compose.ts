@@ -0,0 +1,126 @@
+import path from 'path';
+import type { Email, SendEmailOptions } from 'mailslurp-client';
+import { parseAddress } from './addresses';
+import { htmlToText, isHtml } from './html';
+
+/**
+ * Email to send. Body is set with `htmlBody` or `text`, or with `body` and `isHTML` (or `html`) as in MailSlurp API.
+ * When `variables` are passed, `{{name}}` placeholders in subject and body are replaced with their values.
+ */
+export type OutgoingEmail = SendEmailOptions & {
+  htmlBody?: string,
+  text?: string,
+  variables?: { [name: string]: any },
+}
+
+const contentTypes = {
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.html': 'text/html',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.ics': 'text/calendar',
+  '.eml': 'message/rfc822',
+  '.zip': 'application/zip',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/**
+ * Validates an email and converts it to MailSlurp send options, rendering templates.
+ */
+export function composeEmail(data: OutgoingEmail): SendEmailOptions {
+  if (!data) throw new Error('Email data must be provided, like { to: [\'user@site.com\'], subject: \'Hello\', text: \'World\' }');
+  const { htmlBody, text, variables, ...options } = data;
+  const to = [].concat(options.to || []);
+  // MailSlurp sends to members of a group or to contacts instead of addresses
+  if (!to.length && !options.toGroup && !(options.toContacts && options.toContacts.length)) {
+    throw new Error('Email must have at least one recipient in "to", "toGroup" or "toContacts" field');
+  }
+  for (const field of ['to', 'cc', 'bcc']) {
+    for (const address of [].concat(options[field] || [])) {
+      if (!/^[^\s@]+@[^\s@]+$/.test(parseAddress(address).address)) throw new Error(`Invalid email address "${address}" in "${field}" field`);
+    }
+  }
+  if (htmlBody !== undefined && text !== undefined) throw new Error('Email can have either "htmlBody" or "text" body, not both');
+
+  const isHTML = htmlBody !== undefined || !!options.isHTML || !!options.html;
+  const body = htmlBody ?? text ?? options.body ?? '';
+  return {
+    ...options,
+    to,
+    cc: options.cc && [].concat(options.cc),
+    bcc: options.bcc && [].concat(options.bcc),
+    subject: variables ? renderTemplate(options.subject || '', variables, false) : options.subject,
+    body: variables ? renderTemplate(body, variables, isHTML) : body,
+    isHTML,
+  };
+}
+
+/**
+ * Replaces `{{name}}` and `{{user.name}}` placeholders with values of variables.
+ * Values are HTML-escaped in HTML templates. Throws when a variable is not defined.
+ */
+export function renderTemplate(template: string, variables: { [name: string]: any }, html: boolean): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, name: string) => {
+    const value = name.split('.').reduce((obj, key) => (obj === undefined || obj === null ? undefined : obj[key]), variables);
+    if (value === undefined || value === null) {
+      throw new Error(`Template variable "${name}" is not defined. Passed variables: ${Object.keys(variables).join(', ')}`);
+    }
+    return html ? escapeHtml(`${value}`) : `${value}`;
+  });
+}
+
+/**
+ * Returns headers which put a reply into a thread of an original email.
+ */
+export function threadHeaders(email: Email): { [name: string]: string } {
+  if (!email.messageId) return {};
+  const messageId = email.messageId.startsWith('<') ? email.messageId : `<${email.messageId}>`;
+  const headers = email.headers || {};
+  const key = Object.keys(headers).find(h => h.toLowerCase() === 'references');
+  const references = key ? `${headers[key]} ${messageId}` : messageId;
+  return { 'In-Reply-To': messageId, References: references };
+}
+
+/**
+ * Adds a prefix like `Re:` or `Fwd:` to a subject, unless it is already there.
+ */
+export function prefixSubject(prefix: string, subject: string): string {
+  return new RegExp(`^${prefix}\\s`, 'i').test(subject || '') ? subject : `${prefix} ${subject || ''}`.trim();
+}
+
+/**
+ * Returns a body of a forwarded email: an optional message followed by original headers and body.
+ */
+export function forwardedBody(email: Email, message: string, html: boolean): string {
+  const original = [
+    `From: ${email.from || ''}`,
+    `Date: ${email.createdAt ? new Date(email.createdAt).toUTCString() : ''}`,
+    `Subject: ${email.subject || ''}`,
+    `To: ${[].concat(email.to || []).join(', ')}`,
+  ];
+  if (!html) {
+    const body = isHtml(email.body) ? htmlToText(email.body) : email.body || '';
+    return `${message ? `${message}\n\n` : ''}---------- Forwarded message ---------\n${original.join('\n')}\n\n${body}`;
+  }
+  const body = isHtml(email.body) ? email.body : `<pre>${escapeHtml(email.body || '')}</pre>`;
+  return `${message ? `<p>${escapeHtml(message)}</p>` : ''}<div>---------- Forwarded message ---------<br>${original.map(escapeHtml).join('<br>')}</div><br>${body}`;
+}
+
+/**
+ * Guesses a content type of a file by its extension.
+ */
+export function contentTypeOf(filePath: string): string {
+  return contentTypes[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -0,0 +1,58 @@
+import type { EmailQuery } from './query';
+
+/**
+ * Base class of errors thrown by the helper for failed MailSlurp requests and waits.
+ */
+export class MailSlurpError extends Error {
+  // HTTP status of a failed request
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = new.target.name;
+    this.status = status;
+  }
+}
+
+/**
+ * A request failed after all retries.
+ */
+export class ApiError extends MailSlurpError {
+  method: string;
+  url: string;
+
+  constructor(message: string, details: { status?: number, method: string, url: string }) {
+    super(message, details.status);
+    this.method = details.method;
+    this.url = details.url;
+  }
+}
+
+/**
+ * API key is missing, invalid or has no access to a resource.
+ */
+export class AuthenticationError extends MailSlurpError {}
+
+export class MailboxNotFoundError extends MailSlurpError {
+  mailboxId: string;
+
+  constructor(mailboxId: string, status?: number) {
+    super(`Mailbox ${mailboxId} not found`, status);
+    this.mailboxId = mailboxId;
+  }
+}
+
+/**
+ * No emails matching a query arrived in time.
+ */
+export class EmailWaitTimeoutError extends MailSlurpError {
+  query: EmailQuery;
+  // time spent waiting, in milliseconds
+  elapsed: number;
+
+  constructor(message: string, details: { query?: EmailQuery, elapsed: number, status?: number }) {
+    super(message, details.status);
+    this.query = details.query || null;
+    this.elapsed = details.elapsed;
+  }
+}
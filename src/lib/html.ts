@@ -0,0 +1,41 @@
+import * as cheerio from 'cheerio';
+
+const blockTags = 'p, div, br, tr, li, h1, h2, h3, h4, h5, h6, table, blockquote';
+
+export function isHtml(body: string): boolean {
+  return /<\/?[a-z][^>]*>/i.test(body || '');
+}
+
+/**
+ * Parses an email body, plain text bodies are wrapped into a `<pre>` element.
+ */
+export function loadHtml(body: string) {
+  if (isHtml(body)) return cheerio.load(body);
+  const $ = cheerio.load('<pre></pre>');
+  $('pre').text(body || '');
+  return $;
+}
+
+/**
+ * Converts an email body to a visible text:
+ * strips tags, scripts and styles, decodes entities and collapses whitespace.
+ * Block elements are separated by new lines.
+ */
+export function htmlToText(body: string): string {
+  if (!body) return '';
+  if (!isHtml(body)) return normalizeWhitespace(body);
+  const $ = cheerio.load(body);
+  $('head, script, style, title').remove();
+  $(blockTags).each((_, el) => {
+    $(el).before('\n');
+  });
+  return normalizeWhitespace($.root().text());
+}
+
+export function normalizeWhitespace(text: string): string {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
@@ -0,0 +1,4 @@
+declare module 'libmime' {
+  // decodes MIME encoded words, like '=?UTF-8?B?...?=', in a header value
+  export function decodeWords(value: string): string;
+}
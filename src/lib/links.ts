@@ -0,0 +1,74 @@
+import * as cheerio from 'cheerio';
+import { isHtml } from './html';
+
+export type EmailLink = {
+  // link text as user sees it (url itself for plain-text links)
+  text: string,
+  // href as it appears in email
+  href: string,
+  // href with click-tracking redirects unwrapped
+  url: string,
+}
+
+// query params used by click-tracking services and safe-link wrappers to keep a target url
+const redirectParams = ['url', 'u', 'q', 'target', 'redirect', 'redirect_url', 'redirect_uri', 'dest', 'destination', 'link', 'goto'];
+
+export const urlRegExp = /https?:\/\/[^\s<>"')\]]+/gi;
+
+/**
+ * Extracts links from an email body.
+ * HTML bodies are parsed for `<a href>` tags, plain text bodies are scanned for urls.
+ */
+export function extractLinks(body: string): EmailLink[] {
+  if (!body) return [];
+  if (!isHtml(body)) {
+    return (body.match(urlRegExp) || []).map(href => {
+      href = href.replace(/[.,;:!?]+$/, '');
+      return { text: href, href, url: unwrapRedirect(href) };
+    });
+  }
+
+  const $ = cheerio.load(body);
+  const links: EmailLink[] = [];
+  $('a[href]').each((_, el) => {
+    const href = ($(el).attr('href') || '').trim();
+    if (!href || href.startsWith('#')) return;
+    const text = $(el).text().replace(/\s+/g, ' ').trim() || $(el).find('img').attr('alt') || '';
+    links.push({ text, href, url: unwrapRedirect(href) });
+  });
+  return links;
+}
+
+/**
+ * Unwraps a target url from click-tracking redirects, like
+ * `https://click.service.com/track?url=https%3A%2F%2Fsite.com`.
+ * Returns url as is if it is not a redirect.
+ */
+export function unwrapRedirect(href: string): string {
+  let url: URL;
+  try {
+    url = new URL(href);
+  } catch (err) {
+    return href;
+  }
+  for (const param of redirectParams) {
+    const value = url.searchParams.get(param);
+    if (value && /^https?:\/\//i.test(value)) return unwrapRedirect(value);
+  }
+  return href;
+}
+
+/**
+ * Checks that a link matches a filter.
+ * A string is searched in link text, href and unwrapped url, a RegExp is tested against them.
+ */
+export function linkMatches(link: EmailLink, filter?: string | RegExp): boolean {
+  if (!filter) return true;
+  const values = [link.text, link.href, link.url];
+  if (filter instanceof RegExp) {
+    // a copy without `g` and `y` flags doesn't keep lastIndex between links
+    const pattern = new RegExp(filter.source, filter.flags.replace(/[gy]/g, ''));
+    return values.some(v => pattern.test(v));
+  }
+  return values.some(v => v.includes(filter));
+}
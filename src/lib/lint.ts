@@ -0,0 +1,127 @@
+import type { Element } from 'domhandler';
+import type { Email } from 'mailslurp-client';
+import { isHtml, loadHtml } from './html';
+import { extractLinks, EmailLink } from './links';
+import { findHeader, flattenParts, MimePart } from './mime';
+
+export type LintIssue = {
+  // name of a rule, like 'image-alt'
+  rule: string,
+  severity: 'error' | 'warning',
+  message: string,
+}
+
+export type EmailLintReport = {
+  // size of a raw message in bytes
+  size: number,
+  errors: LintIssue[],
+  warnings: LintIssue[],
+}
+
+// Gmail clips HTML bodies larger than this
+const maxHtmlSize = 102 * 1024;
+// most mail servers reject larger messages
+const maxMessageSize = 10 * 1024 * 1024;
+const dangerousTags = ['script', 'iframe', 'object', 'embed', 'form', 'base', 'meta[http-equiv="refresh" i]'];
+const unsubscribePattern = /unsubscribe|opt[\s-]?out|email preferences|manage (your )?subscription/i;
+
+/**
+ * Returns `src` of images referencing inline parts by `cid:` which are missing in a message.
+ */
+export function findBrokenImages(body: string, message: MimePart): string[] {
+  if (!isHtml(body)) return [];
+  const contentIds = flattenParts(message)
+    .map(part => findHeader(part.headers, 'content-id'))
+    .filter(Boolean)
+    .map(id => id.replace(/^<|>$/g, '').toLowerCase());
+  const $ = loadHtml(body);
+  return $('img').toArray().map(el => ($(el).attr('src') || '').trim()).filter(src => {
+    if (!src) return true;
+    if (!/^cid:/i.test(src)) return false;
+    return !contentIds.includes(decodeURIComponent(src.slice(4)).toLowerCase());
+  });
+}
+
+/**
+ * Returns links which open over plain http, directly or through a click-tracking redirect.
+ */
+export function findInsecureLinks(body: string): EmailLink[] {
+  return extractLinks(body).filter(link => /^http:/i.test(link.href) || /^http:/i.test(link.url));
+}
+
+/**
+ * Returns `src` of images without `alt` attribute. Empty `alt` marks a decorative image and is allowed.
+ */
+export function findImagesWithoutAlt(body: string): string[] {
+  if (!isHtml(body)) return [];
+  const $ = loadHtml(body);
+  return $('img').toArray().filter(el => $(el).attr('alt') === undefined).map(el => $(el).attr('src') || '');
+}
+
+/**
+ * Returns an unsubscribe url from `List-Unsubscribe` header or from a link in a body, or null.
+ */
+export function findUnsubscribeLink(email: Email, message: MimePart): string {
+  const header = findHeader(message.headers, 'list-unsubscribe');
+  if (header) {
+    const urls = (header.match(/<([^<>]+)>/g) || []).map(url => url.slice(1, -1));
+    return urls.find(url => /^https?:/i.test(url)) || urls[0] || header.trim();
+  }
+  const link = extractLinks(email.body).find(l => unsubscribePattern.test(l.text) || unsubscribePattern.test(l.href));
+  return link ? link.url : null;
+}
+
+/**
+ * Checks an email for common problems: sizes, missing text part, dangerous tags and attributes,
+ * broken and undescribed images, insecure links and spammy subjects.
+ */
+export function lintEmail(email: Email, message: MimePart, raw: string): EmailLintReport {
+  const issues: LintIssue[] = [];
+  const add = (rule: string, severity: LintIssue['severity'], text: string) => issues.push({ rule, severity, message: text });
+  const size = Buffer.byteLength(raw || '');
+  const body = email.body || '';
+
+  if (size > maxMessageSize) add('message-size', 'error', `Message is ${formatSize(size)}, larger than ${formatSize(maxMessageSize)}`);
+  if (!(email.subject || '').trim()) add('subject', 'error', 'Subject is empty');
+  else if (spammySubject(email.subject)) add('subject', 'warning', `Subject "${email.subject}" looks like spam: all caps or repeated punctuation`);
+
+  if (isHtml(body)) {
+    const htmlSize = Buffer.byteLength(body);
+    if (htmlSize > maxHtmlSize) add('html-size', 'warning', `HTML is ${formatSize(htmlSize)}, Gmail clips emails larger than ${formatSize(maxHtmlSize)}`);
+    if (!flattenParts(message).some(part => part.contentType === 'text/plain' && !part.filename)) {
+      add('text-part', 'warning', 'HTML email has no plain text alternative');
+    }
+    const $ = loadHtml(body);
+    for (const tag of dangerousTags) {
+      const found = $(tag).length;
+      if (found) add('dangerous-tags', 'error', `<${tag.replace(/\[.*$/, '')}> is blocked by mail clients, found ${found}`);
+    }
+    $('*').each((_, el: Element) => {
+      for (const attr of Object.keys(el.attribs)) {
+        if (/^on/i.test(attr)) add('dangerous-tags', 'error', `<${el.tagName}> has "${attr}" event handler`);
+      }
+    });
+    for (const link of extractLinks(body).filter(l => /^\s*javascript:/i.test(l.href))) {
+      add('dangerous-tags', 'error', `Link "${link.text}" runs javascript`);
+    }
+  }
+
+  for (const src of findBrokenImages(body, message)) add('broken-images', 'error', `Image "${src}" is not attached to an email`);
+  for (const src of findImagesWithoutAlt(body)) add('image-alt', 'warning', `Image "${src}" has no alt text`);
+  for (const link of findInsecureLinks(body)) add('https', 'warning', `Link "${link.text}" (${link.href}) is not https`);
+
+  return {
+    size,
+    errors: issues.filter(i => i.severity === 'error'),
+    warnings: issues.filter(i => i.severity === 'warning'),
+  };
+}
+
+function spammySubject(subject: string): boolean {
+  const letters = subject.replace(/[^A-Za-z]/g, '');
+  return (letters.length >= 10 && letters === letters.toUpperCase()) || /[!?$]{3,}/.test(subject);
+}
+
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+}
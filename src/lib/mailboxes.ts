@@ -0,0 +1,71 @@
+import { randomBytes } from 'crypto';
+import type { CreateInboxDto, InboxDto } from 'mailslurp-client';
+
+/**
+ * A mailbox returned by `haveNewMailbox`, converts to its email address in strings.
+ */
+export type Inbox = InboxDto & {
+  toString(): string,
+}
+
+/**
+ * Options of a created mailbox.
+ * `name`, `description` and `localPart` are templates with placeholders:
+ * `{test}` - a slug of a current test title, `{random}` - random hex characters, `{timestamp}` - current time in ms.
+ */
+export type MailboxOptions = {
+  name?: string,
+  description?: string,
+  // domain of an address, must be verified in MailSlurp account
+  domain?: string,
+  // part of an address before `@`, like `{test}-{random}`
+  localPart?: string,
+  tags?: string[],
+  // time to live of a mailbox in milliseconds
+  expiresIn?: number,
+  // use a pool of MailSlurp domains for an address
+  useDomainPool?: boolean,
+}
+
+const optionKeys = ['name', 'description', 'domain', 'localPart', 'tags', 'expiresIn', 'useDomainPool'];
+
+/**
+ * Converts mailbox options to MailSlurp inbox options, filling templates.
+ * `defaultDomain` is used when `localPart` is set without `domain`.
+ */
+export function createInboxOptions(options: MailboxOptions, testTitle: string, defaultDomain?: string): CreateInboxDto {
+  const unknown = Object.keys(options).filter(key => !optionKeys.includes(key));
+  if (unknown.length) {
+    throw new Error(`Unknown mailbox options: ${unknown.join(', ')}. Use one of: ${optionKeys.join(', ')}`);
+  }
+  const fill = (template: string) => template && fillTemplate(template, testTitle);
+  const inboxOptions: CreateInboxDto = {
+    name: fill(options.name),
+    description: fill(options.description),
+    tags: options.tags,
+    expiresIn: options.expiresIn,
+    useDomainPool: options.useDomainPool,
+  };
+  if (options.localPart) {
+    const domain = options.domain || defaultDomain;
+    if (!domain) throw new Error('Mailbox option "localPart" requires "domain" to build an email address');
+    inboxOptions.emailAddress = `${fill(options.localPart)}@${domain}`.toLowerCase();
+  } else if (options.domain) {
+    inboxOptions.domainName = options.domain;
+  }
+  for (const key of Object.keys(inboxOptions)) {
+    if (inboxOptions[key] === undefined) delete inboxOptions[key];
+  }
+  return inboxOptions;
+}
+
+function fillTemplate(template: string, testTitle: string): string {
+  return template
+    .replace(/\{test\}/g, slugify(testTitle || 'test'))
+    .replace(/\{random\}/g, () => randomBytes(4).toString('hex'))
+    .replace(/\{timestamp\}/g, () => `${Date.now()}`);
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40).replace(/-+$/, '');
+}
@@ -0,0 +1,110 @@
+import { finished } from 'stream';
+import { Splitter } from '@zone-eu/mailsplit';
+import type { MimeNode, SplitterChunk } from '@zone-eu/mailsplit';
+import libmime from 'libmime';
+
+export type MimeHeader = {
+  name: string,
+  value: string,
+}
+
+export type MimePart = {
+  headers: MimeHeader[],
+  // lowercased mime type, like 'text/html'
+  contentType: string,
+  charset: string,
+  filename: string,
+  // decoded content of a leaf part
+  content: Buffer,
+  parts: MimePart[],
+}
+
+/**
+ * Parses a raw MIME message into a tree of parts, as parts are nested in the message.
+ * Transfer encodings are decoded, headers of each part are kept with encoded words decoded.
+ */
+export function parseMime(raw: string | Buffer): Promise<MimePart> {
+  return new Promise((resolve, reject) => {
+    const splitter = new Splitter();
+    const parts = new Map<MimeNode, MimePart>();
+    const bodies = new Map<MimeNode, Buffer[]>();
+    let message: MimePart = null;
+    splitter.on('data', (chunk: SplitterChunk) => {
+      if (chunk.type === 'node') {
+        const part = nodePart(chunk);
+        parts.set(chunk, part);
+        if (chunk.parentNode) parts.get(chunk.parentNode).parts.push(part);
+        else message = part;
+        return;
+      }
+      if (chunk.type !== 'body') return;
+      if (!bodies.has(chunk.node)) bodies.set(chunk.node, []);
+      bodies.get(chunk.node).push(chunk.value);
+    });
+    finished(splitter, err => {
+      if (err) return reject(err);
+      const decoded = [...bodies].map(async ([node, chunks]) => {
+        parts.get(node).content = await decodeBody(node, Buffer.concat(chunks));
+      });
+      Promise.all(decoded).then(() => resolve(message), reject);
+    });
+    splitter.end(Buffer.isBuffer(raw) ? raw : Buffer.from(raw, 'utf8'));
+  });
+}
+
+/**
+ * Returns decoded text of a part using its charset.
+ */
+export function partText(part: MimePart): string {
+  if (!part.content) return '';
+  try {
+    return new TextDecoder(part.charset).decode(part.content);
+  } catch (err) {
+    return part.content.toString('utf8');
+  }
+}
+
+/**
+ * Returns all parts of a message tree, including the message itself, depth first.
+ */
+export function flattenParts(part: MimePart): MimePart[] {
+  return [part, ...part.parts.flatMap(flattenParts)];
+}
+
+/**
+ * Returns values of all headers with a given name, case-insensitive.
+ */
+export function findHeaders(headers: MimeHeader[], name: string): string[] {
+  return headers.filter(h => h.name.toLowerCase() === name.toLowerCase()).map(h => h.value);
+}
+
+export function findHeader(headers: MimeHeader[], name: string): string {
+  return findHeaders(headers, name)[0];
+}
+
+function nodePart(node: MimeNode): MimePart {
+  const lines = node.headers ? node.headers.getList() : [];
+  return {
+    headers: lines.map(({ line }) => {
+      const separator = line.indexOf(':');
+      const value = line.slice(separator + 1).replace(/\r?\n[ \t]+/g, ' ').trim();
+      return { name: line.slice(0, separator).trim(), value: libmime.decodeWords(value) };
+    }),
+    contentType: node.contentType || 'text/plain',
+    charset: node.charset || 'utf-8',
+    filename: node.filename || null,
+    content: null,
+    parts: [],
+  };
+}
+
+function decodeBody(node: MimeNode, body: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const decoder = node.getDecoder();
+    const chunks: Buffer[] = [];
+    decoder.on('data', (chunk: Buffer) => chunks.push(chunk));
+    decoder.on('end', () => resolve(Buffer.concat(chunks)));
+    decoder.on('error', reject);
+    decoder.end(body);
+  });
+}
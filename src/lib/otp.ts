@@ -0,0 +1,84 @@
+import { htmlToText } from './html';
+import { urlRegExp } from './links';
+
+export type OtpOptions = {
+  // exact number of characters in a code, or [min, max] range. Default: [4, 8]
+  length?: number | [number, number],
+  // codes may contain letters, but at least one digit. Default: false
+  alphanumeric?: boolean,
+  // search for a code near a keyword, like 'code' or 'PIN'
+  keyword?: string | RegExp,
+  // custom pattern of a code, overrides `length` and `alphanumeric`
+  pattern?: RegExp,
+  // where to search for a code. Default: both subject and body
+  in?: 'subject' | 'body',
+}
+
+// how many characters around a keyword are checked for a code
+const keywordDistance = 40;
+
+/**
+ * Finds unique one-time codes in email subject and body.
+ * HTML is stripped and urls are removed before searching, so tokens inside links are ignored.
+ */
+export function findOtpCandidates(email: { subject?: string, body?: string }, options: OtpOptions = {}): string[] {
+  const sources = [];
+  if (options.in !== 'body') sources.push(email.subject || '');
+  if (options.in !== 'subject') sources.push(htmlToText(email.body || ''));
+  const text = sources.join('\n').replace(urlRegExp, ' ');
+  const pattern = codePattern(options);
+
+  let candidates: string[];
+  if (options.keyword) {
+    candidates = [];
+    const keyword = options.keyword instanceof RegExp
+      ? new RegExp(options.keyword.source, 'gi')
+      : new RegExp(escapeRegExp(options.keyword), 'gi');
+    let match;
+    while ((match = keyword.exec(text)) !== null) {
+      const after = text.slice(match.index + match[0].length, match.index + match[0].length + keywordDistance);
+      const before = text.slice(Math.max(0, match.index - keywordDistance), match.index);
+      const code = (after.match(pattern) || [])[0] || (before.match(pattern) || []).pop();
+      if (code) candidates.push(code);
+      if (!match[0].length) keyword.lastIndex++;
+    }
+  } else {
+    candidates = text.match(pattern) || [];
+  }
+  return [...new Set(candidates)];
+}
+
+/**
+ * Returns a single one-time code from an email.
+ * Throws a readable error when no codes or several different codes were found.
+ */
+export function findOtp(email: { subject?: string, body?: string }, options: OtpOptions = {}): string {
+  const candidates = findOtpCandidates(email, options);
+  if (candidates.length === 1) return candidates[0];
+  const where = `e-mail with subject "${email.subject}"`;
+  if (!candidates.length) {
+    throw new Error(`One-time code${describeOptions(options)} not found in ${where}.`);
+  }
+  throw new Error(`Found ${candidates.length} possible one-time codes${describeOptions(options)} in ${where}: ${candidates.map(c => `"${c}"`).join(', ')}. `
+    + 'Narrow a search with `keyword`, `length` or `pattern` options.');
+}
+
+function codePattern(options: OtpOptions): RegExp {
+  if (options.pattern) return new RegExp(options.pattern.source, options.pattern.flags.replace('g', '') + 'g');
+  const [min, max] = Array.isArray(options.length) ? options.length : [options.length || 4, options.length || 8];
+  if (options.alphanumeric) return new RegExp(`\\b(?=[A-Za-z]*\\d)[A-Za-z0-9]{${min},${max}}\\b`, 'g');
+  return new RegExp(`\\b\\d{${min},${max}}\\b`, 'g');
+}
+
+function describeOptions(options: OtpOptions): string {
+  const details = [];
+  if (options.pattern) details.push(`pattern ${options.pattern}`);
+  if (options.length) details.push(`length ${[].concat(options.length).join('-')}`);
+  if (options.alphanumeric) details.push('alphanumeric');
+  if (options.keyword) details.push(`near "${options.keyword}"`);
+  return details.length ? ` (${details.join(', ')})` : '';
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,30 @@
+import { isHtml } from './html';
+import { findHeader, flattenParts, MimePart } from './mime';
+
+/**
+ * Returns HTML of an email which can be opened in a browser.
+ * Inline images referenced by `cid:` urls are replaced with data urls of matching MIME parts,
+ * plain text emails are wrapped into `<pre>`.
+ */
+export function renderEmailHtml(body: string, message: MimePart): string {
+  if (!isHtml(body)) {
+    return `<!DOCTYPE html><html><head><meta charset="utf-8"></head><body><pre>${escapeHtml(body || '')}</pre></body></html>`;
+  }
+  const images = new Map<string, string>();
+  for (const part of flattenParts(message)) {
+    const contentId = findHeader(part.headers, 'content-id');
+    if (!contentId || !part.content) continue;
+    images.set(contentId.replace(/^<|>$/g, '').toLowerCase(), `data:${part.contentType};base64,${part.content.toString('base64')}`);
+  }
+  let html = body.replace(/cid:([^"')\s>]+)/gi, (match, cid) => images.get(decodeURIComponent(cid).toLowerCase()) || match);
+  if (!/<meta[^>]+charset/i.test(html)) {
+    html = /<head[^>]*>/i.test(html)
+      ? html.replace(/<head[^>]*>/i, head => `${head}<meta charset="utf-8">`)
+      : `<meta charset="utf-8">${html}`;
+  }
+  return html;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -0,0 +1,433 @@
+import { EventEmitter } from 'events';
+import { randomBytes, randomUUID } from 'crypto';
+import fs from 'fs';
+import { simpleParser, AddressObject } from 'mailparser';
+import MailComposer from 'nodemailer/lib/mail-composer';
+import type { AttachmentMetaData, CreateInboxDto, Email, EmailPreview, InboxDto, MatchOptions, SendEmailOptions, SentEmailDto, UploadAttachmentOptions } from 'mailslurp-client';
+import type { MailProvider } from './MailProvider';
+import { EmailWaitTimeoutError, MailboxNotFoundError } from '../errors';
+
+export type LocalProviderOptions = {
+  // domain of created mailboxes
+  domain?: string,
+}
+
+/**
+ * An email to put into a mailbox, see `LocalProvider.addEmail`
+ */
+export type EmailFixture = {
+  from?: string,
+  to?: string | string[],
+  cc?: string | string[],
+  replyTo?: string,
+  subject?: string,
+  // plain text body
+  text?: string,
+  // HTML body
+  html?: string,
+  headers?: { [name: string]: string },
+  attachments?: { filename: string, content: string | Buffer, contentType?: string, cid?: string }[],
+}
+
+type StoredAttachment = {
+  meta: AttachmentMetaData,
+  content: Buffer,
+}
+
+type StoredEmail = {
+  email: Email,
+  raw: string,
+  attachments: StoredAttachment[],
+}
+
+/**
+ * Base class for backends which keep mailboxes and emails in memory.
+ * Emails are added with `deliver` method as raw MIME messages and routed to mailboxes by recipients.
+ * Subclasses define how a sent message reaches `deliver` by implementing `transmit`.
+ */
+export abstract class LocalProvider implements MailProvider {
+  readonly domain: string;
+  protected inboxes = new Map<string, InboxDto>();
+  protected emails: StoredEmail[] = [];
+  protected uploads = new Map<string, { filename: string, contentType: string, content: Buffer }>();
+  protected events = new EventEmitter();
+  protected webhooks = new Map<string, { inboxId: string, url: string }>();
+
+  constructor(options: LocalProviderOptions = {}) {
+    this.domain = options.domain || 'example.test';
+    this.events.setMaxListeners(0);
+  }
+
+  /**
+   * Passes a composed raw message to recipients.
+   */
+  protected abstract transmit(raw: Buffer, from: string, recipients: string[]): Promise<void>;
+
+  async createInbox(options: CreateInboxDto = {}) {
+    const emailAddress = options.emailAddress || `${randomBytes(6).toString('hex')}@${options.domainName || this.domain}`;
+    if ([...this.inboxes.values()].some(i => i.emailAddress.toLowerCase() === emailAddress.toLowerCase())) {
+      throw new Error(`Mailbox ${emailAddress} already exists`);
+    }
+    const inbox = {
+      id: randomUUID(),
+      userId: null,
+      createdAt: new Date(),
+      emailAddress,
+      name: options.name || null,
+      description: options.description || null,
+      tags: options.tags || [],
+      expiresAt: options.expiresIn ? new Date(Date.now() + options.expiresIn) : options.expiresAt || null,
+      favourite: !!options.favourite,
+      readOnly: false,
+      virtualInbox: false,
+    } as InboxDto;
+    this.inboxes.set(inbox.id, inbox);
+    return { ...inbox };
+  }
+
+  async getInbox(inboxId: string) {
+    return { ...this.findInbox(inboxId) };
+  }
+
+  async deleteInbox(inboxId: string) {
+    this.findInbox(inboxId);
+    this.inboxes.delete(inboxId);
+    this.emails = this.emails.filter(e => e.email.inboxId !== inboxId);
+    for (const [webhookId, webhook] of this.webhooks) {
+      if (webhook.inboxId === inboxId) this.webhooks.delete(webhookId);
+    }
+  }
+
+  async emptyInbox(inboxId: string) {
+    this.findInbox(inboxId);
+    this.emails = this.emails.filter(e => e.email.inboxId !== inboxId);
+  }
+
+  async sendEmail(inboxId: string, data: SendEmailOptions): Promise<SentEmailDto> {
+    const inbox = this.findInbox(inboxId);
+    const from = data.from || inbox.emailAddress;
+    const isHTML = !!(data.isHTML || data.html);
+    const message = new MailComposer({
+      from,
+      to: data.to,
+      cc: data.cc,
+      bcc: data.bcc,
+      replyTo: data.replyTo,
+      subject: data.subject,
+      headers: data.customHeaders,
+      [isHTML ? 'html' : 'text']: data.body || '',
+      attachments: (data.attachments || []).map(id => {
+        if (!this.uploads.has(id)) throw new Error(`Attachment ${id} was not uploaded`);
+        return { ...this.uploads.get(id) };
+      }),
+    }).compile();
+    await this.transmit(await message.build(), from, message.getEnvelope().to);
+    return {
+      id: randomUUID(),
+      userId: null,
+      inboxId,
+      from,
+      to: data.to,
+      cc: data.cc,
+      bcc: data.bcc,
+      replyTo: data.replyTo,
+      attachments: data.attachments,
+      subject: data.subject,
+      body: data.body,
+      isHTML,
+      messageId: message.messageId(),
+      sentAt: new Date(),
+      createdAt: new Date(),
+    };
+  }
+
+  async uploadAttachment(options: UploadAttachmentOptions) {
+    const id = randomUUID();
+    this.uploads.set(id, {
+      filename: options.filename || id,
+      contentType: options.contentType || 'application/octet-stream',
+      content: Buffer.from(options.base64Contents, 'base64'),
+    });
+    return [id];
+  }
+
+  /**
+   * Puts an email into mailboxes, without sending it.
+   * Recipients are taken from `to` and `cc` fields unless passed explicitly.
+   *
+   * ```js
+   * await provider.addEmail({ from: 'app@site.com', subject: 'Welcome', html: '<p>Hi</p>' }, [inbox.emailAddress]);
+   * ```
+   */
+  async addEmail(fixture: EmailFixture, recipients?: string[]): Promise<Email[]> {
+    const raw = await new MailComposer({ from: 'fixture@example.test', ...fixture }).compile().build();
+    return this.deliver(raw, recipients);
+  }
+
+  /**
+   * Puts an email saved as `.eml` file into mailboxes.
+   * Recipients are taken from `To`, `Cc` and `Bcc` headers unless passed explicitly.
+   */
+  async addEmailFromFile(path: string, recipients?: string[]): Promise<Email[]> {
+    return this.deliver(await fs.promises.readFile(path), recipients);
+  }
+
+  /**
+   * Parses a raw MIME message and stores a copy of it in every mailbox listed in recipients.
+   * If recipients are not passed, they are taken from `To`, `Cc` and `Bcc` headers.
+   * Returns stored emails.
+   */
+  async deliver(raw: string | Buffer, recipients?: string[]): Promise<Email[]> {
+    const source = raw.toString();
+    const parsed = await simpleParser(source);
+    const addresses = (recipients || [parsed.to, parsed.cc, parsed.bcc].flatMap(addressList)).map(a => a.toLowerCase());
+    const inboxes = [...this.inboxes.values()].filter(i => addresses.includes(i.emailAddress.toLowerCase()));
+
+    const delivered = inboxes.map(inbox => {
+      const id = randomUUID();
+      const attachments = (parsed.attachments || []).map(a => ({
+        meta: {
+          id: randomUUID(),
+          name: a.filename || '',
+          contentType: a.contentType,
+          contentLength: a.size,
+          contentId: a.cid || null,
+        },
+        content: a.content,
+      }));
+      const headers = {};
+      for (const { line } of parsed.headerLines) {
+        const separator = line.indexOf(':');
+        headers[line.slice(0, separator).trim()] = line.slice(separator + 1).replace(/\r?\n\s+/g, ' ').trim();
+      }
+      const from = parsed.from && parsed.from.value[0];
+      const to = addressList(parsed.to);
+      const cc = addressList(parsed.cc);
+      // a mailbox not listed in To and Cc received an email as Bcc
+      const bcc = addressList(parsed.bcc);
+      const address = inbox.emailAddress.toLowerCase();
+      if (![...to, ...cc, ...bcc].some(a => a.toLowerCase() === address)) bcc.push(inbox.emailAddress);
+      const email = {
+        id,
+        userId: null,
+        inboxId: inbox.id,
+        to,
+        from: from ? from.address : null,
+        sender: from ? { rawValue: parsed.from.text, emailAddress: from.address, name: from.name || null } : null,
+        replyTo: addressList(parsed.replyTo)[0] || null,
+        cc,
+        bcc,
+        recipients: {
+          to: recipientList(parsed.to),
+          cc: recipientList(parsed.cc),
+          bcc: bcc.map(a => ({ rawValue: a, emailAddress: a, name: null })),
+        },
+        headers,
+        attachments: attachments.map(a => a.meta.id),
+        subject: parsed.subject || '',
+        body: parsed.html || parsed.text || '',
+        isHTML: !!parsed.html,
+        messageId: parsed.messageId || null,
+        inReplyTo: parsed.inReplyTo || null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        read: false,
+        teamAccess: false,
+      } as Email;
+      return { email, raw: source, attachments };
+    });
+
+    this.emails.push(...delivered);
+    if (delivered.length) this.events.emit('email');
+    await Promise.all(delivered.map(d => this.notifyWebhooks(d.email)));
+    return delivered.map(d => ({ ...d.email }));
+  }
+
+  waitForLatestEmail(inboxId: string, timeout: number) {
+    this.findInbox(inboxId);
+    return this.waitFor(() => this.inboxEmails(inboxId).pop(), timeout, `an email in ${inboxId}`)
+      .then(e => this.markRead(e));
+  }
+
+  waitForNthEmail(inboxId: string, index: number, timeout: number) {
+    this.findInbox(inboxId);
+    return this.waitFor(() => this.inboxEmails(inboxId)[index], timeout, `email #${index} in ${inboxId}`)
+      .then(e => this.markRead(e));
+  }
+
+  waitForMatchingEmails(matchOptions: MatchOptions, count: number, inboxId: string, timeout: number) {
+    this.findInbox(inboxId);
+    const matching = () => {
+      const emails = this.inboxEmails(inboxId).filter(e => matchesOptions(e, matchOptions));
+      return emails.length >= count ? emails : undefined;
+    };
+    return this.waitFor(matching, timeout, `${count} matching emails in ${inboxId}`)
+      .then(emails => emails.map(toPreview));
+  }
+
+  async getEmails(inboxId: string) {
+    this.findInbox(inboxId);
+    return this.inboxEmails(inboxId).map(toPreview);
+  }
+
+  async getEmail(emailId: string) {
+    return this.markRead(this.findEmail(emailId).email);
+  }
+
+  async deleteEmail(emailId: string) {
+    const stored = this.findEmail(emailId);
+    this.emails = this.emails.filter(e => e !== stored);
+  }
+
+  async markAsRead(emailId: string, read: boolean) {
+    this.findEmail(emailId).email.read = read;
+  }
+
+  async getRawEmail(emailId: string) {
+    return this.findEmail(emailId).raw;
+  }
+
+  async getAttachmentMetaData(attachmentId: string, emailId: string) {
+    return { ...this.findAttachment(attachmentId, emailId).meta };
+  }
+
+  async downloadAttachment(attachmentId: string, emailId: string) {
+    return Buffer.from(this.findAttachment(attachmentId, emailId).content);
+  }
+
+  async createWebhook(inboxId: string, url: string) {
+    this.findInbox(inboxId);
+    const id = randomUUID();
+    this.webhooks.set(id, { inboxId, url });
+    return id;
+  }
+
+  async deleteWebhook(inboxId: string, webhookId: string) {
+    this.webhooks.delete(webhookId);
+  }
+
+  /**
+   * Posts a `NEW_EMAIL` event to webhooks of a mailbox, in the format of MailSlurp webhooks.
+   * A failed request is ignored, as a receiver falls back to polling.
+   */
+  protected async notifyWebhooks(email: Email) {
+    const webhooks = [...this.webhooks].filter(([, webhook]) => webhook.inboxId === email.inboxId);
+    await Promise.all(webhooks.map(async ([webhookId, { url }]) => {
+      const messageId = randomUUID();
+      const body = JSON.stringify({
+        messageId,
+        webhookId,
+        eventName: 'NEW_EMAIL',
+        webhookName: null,
+        inboxId: email.inboxId,
+        emailId: email.id,
+        createdAt: email.createdAt,
+        to: email.to,
+        from: email.from,
+        cc: email.cc,
+        bcc: email.bcc,
+        subject: email.subject,
+        attachmentMetaDatas: [],
+      });
+      try {
+        await fetch(url, {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', 'x-msg-id': messageId },
+          body,
+        });
+      } catch (err) {
+        // a receiver is stopped or unreachable
+      }
+    }));
+  }
+
+  protected findInbox(inboxId: string): InboxDto {
+    const inbox = this.inboxes.get(inboxId);
+    if (!inbox) throw new MailboxNotFoundError(inboxId);
+    return inbox;
+  }
+
+  protected findEmail(emailId: string): StoredEmail {
+    const stored = this.emails.find(e => e.email.id === emailId);
+    if (!stored) throw new Error(`Email ${emailId} not found`);
+    return stored;
+  }
+
+  protected findAttachment(attachmentId: string, emailId: string): StoredAttachment {
+    const attachment = this.findEmail(emailId).attachments.find(a => a.meta.id === attachmentId);
+    if (!attachment) throw new Error(`Attachment ${attachmentId} not found in email ${emailId}`);
+    return attachment;
+  }
+
+  protected inboxEmails(inboxId: string): Email[] {
+    return this.emails.filter(e => e.email.inboxId === inboxId).map(e => e.email);
+  }
+
+  protected markRead(email: Email): Email {
+    email.read = true;
+    return { ...email };
+  }
+
+  /**
+   * Resolves when `check` returns a value, re-checking it on every delivered email.
+   */
+  protected waitFor<T>(check: () => T | undefined, timeout: number, description: string): Promise<T> {
+    const found = check();
+    if (found) return Promise.resolve(found);
+    return new Promise((resolve, reject) => {
+      const onEmail = () => {
+        const result = check();
+        if (!result) return;
+        cleanup();
+        resolve(result);
+      };
+      const timer = setTimeout(() => {
+        cleanup();
+        reject(new EmailWaitTimeoutError(`Timed out after ${timeout}ms waiting for ${description}`, { elapsed: timeout }));
+      }, timeout);
+      const cleanup = () => {
+        clearTimeout(timer);
+        this.events.off('email', onEmail);
+      };
+      this.events.on('email', onEmail);
+    });
+  }
+}
+
+function addressList(addresses: AddressObject | AddressObject[]): string[] {
+  if (!addresses) return [];
+  return [].concat(addresses).flatMap(a => a.value).map(a => a.address).filter(Boolean);
+}
+
+function recipientList(addresses: AddressObject | AddressObject[]) {
+  if (!addresses) return [];
+  return [].concat(addresses).flatMap(a => a.value)
+    .filter(a => a.address)
+    .map(a => ({ rawValue: a.name ? `"${a.name}" <${a.address}>` : a.address, emailAddress: a.address, name: a.name || null }));
+}
+
+function toPreview(email: Email): EmailPreview {
+  const { id, inboxId, subject, to, from, cc, bcc, createdAt, read, attachments, messageId, inReplyTo, sender, recipients } = email;
+  return { id, inboxId, subject, to, from, cc, bcc, createdAt, read, attachments, messageId, inReplyTo, sender, recipients };
+}
+
+/**
+ * Applies MailSlurp match options to an email locally.
+ */
+export function matchesOptions(email: Email, matchOptions: MatchOptions): boolean {
+  return (matchOptions.matches || []).every(({ field, should, value }) => {
+    let values: string[];
+    switch (field) {
+      case 'SUBJECT': values = [email.subject || '']; break;
+      case 'FROM': values = [email.from || '']; break;
+      case 'TO': values = email.to || []; break;
+      case 'CC': values = email.cc || []; break;
+      case 'BCC': values = email.bcc || []; break;
+      case 'HEADERS': values = Object.entries(email.headers || {}).map(([k, v]) => `${k}: ${v}`); break;
+      default: return false;
+    }
+    if (should === 'EQUAL') return values.some(v => v === value);
+    if (should === 'MATCH') return values.some(v => new RegExp(value).test(v));
+    return values.some(v => v.includes(value));
+  });
+}
@@ -0,0 +1,41 @@
+import type { AttachmentMetaData, CreateInboxDto, Email, EmailPreview, InboxDto, MatchOptions, SendEmailOptions, SentEmailDto, UploadAttachmentOptions } from 'mailslurp-client';
+
+/**
+ * A backend which creates mailboxes, sends and receives emails.
+ * MailSlurp is used by default. Methods follow MailSlurp client API,
+ * so other backends behave the same way for helper steps.
+ */
+export interface MailProvider {
+  // optional lifecycle hooks, called when a helper is initialized and all tests finished
+  start?(): Promise<void>;
+  stop?(): Promise<void>;
+
+  createInbox(options?: CreateInboxDto): Promise<InboxDto>;
+  getInbox(inboxId: string): Promise<InboxDto>;
+  deleteInbox(inboxId: string): Promise<void>;
+  // removes all emails from a mailbox
+  emptyInbox(inboxId: string): Promise<void>;
+
+  sendEmail(inboxId: string, data: SendEmailOptions): Promise<SentEmailDto>;
+  // uploads a file to be sent as an attachment, returns ids to pass in `attachments` of `sendEmail`
+  uploadAttachment(options: UploadAttachmentOptions): Promise<string[]>;
+
+  waitForLatestEmail(inboxId: string, timeout: number): Promise<Email>;
+  // index is zero-based
+  waitForNthEmail(inboxId: string, index: number, timeout: number): Promise<Email>;
+  waitForMatchingEmails(matchOptions: MatchOptions, count: number, inboxId: string, timeout: number): Promise<EmailPreview[]>;
+
+  getEmails(inboxId: string): Promise<EmailPreview[]>;
+  // an email becomes read when it is fetched
+  getEmail(emailId: string): Promise<Email>;
+  deleteEmail(emailId: string): Promise<void>;
+  markAsRead(emailId: string, read: boolean): Promise<void>;
+  // raw MIME source of an email
+  getRawEmail(emailId: string): Promise<string>;
+  getAttachmentMetaData(attachmentId: string, emailId: string): Promise<AttachmentMetaData>;
+  downloadAttachment(attachmentId: string, emailId: string): Promise<Buffer>;
+
+  // optional webhooks sending `NEW_EMAIL` events to a url, used by `webhook` option of a helper
+  createWebhook?(inboxId: string, url: string): Promise<string>;
+  deleteWebhook?(inboxId: string, webhookId: string): Promise<void>;
+}
@@ -0,0 +1,182 @@
+import {
+  AttachmentControllerApi,
+  CommonActionsControllerApi,
+  Configuration,
+  CreateWebhookOptionsEventNameEnum,
+  EmailControllerApi,
+  InboxControllerApi,
+  MailSlurp as MailSlurpClient,
+  WaitForControllerApi,
+  WebhookControllerApi,
+} from 'mailslurp-client';
+import type { AttachmentMetaData, CreateInboxDto, Email, EmailPreview, InboxDto, MatchOptions, SendEmailOptions, SentEmailDto, UploadAttachmentOptions } from 'mailslurp-client';
+import type { MailProvider } from './MailProvider';
+import { createRetryingFetch, RetryOptions } from './request';
+import { AuthenticationError, EmailWaitTimeoutError, MailboxNotFoundError, MailSlurpError } from '../errors';
+
+export type MailSlurpProviderOptions = {
+  apiKey: string,
+  retry?: RetryOptions,
+  // headers sent with every API request
+  headers?: { [name: string]: string },
+  // called before a failed request is retried
+  onRetry?: (message: string) => void,
+}
+
+// default API url of MailSlurp javascript client
+const apiUrl = 'https://javascript.api.mailslurp.com';
+
+/**
+ * Default backend, uses [MailSlurp service](https://mailslurp.com).
+ * Failed requests are retried, and errors are converted to `AuthenticationError`,
+ * `MailboxNotFoundError` and `EmailWaitTimeoutError`.
+ */
+export class MailSlurpProvider implements MailProvider {
+  // kept for direct access to MailSlurp API
+  client: MailSlurpClient;
+  protected attachmentController: AttachmentControllerApi;
+  protected commonController: CommonActionsControllerApi;
+  protected emailController: EmailControllerApi;
+  protected inboxController: InboxControllerApi;
+  protected waitController: WaitForControllerApi;
+  protected webhookController: WebhookControllerApi;
+
+  constructor(options: MailSlurpProviderOptions) {
+    if (!options.apiKey) {
+      throw new AuthenticationError(`MailSlurp is not configured! Please provide API key to access your account`);
+    }
+    const fetchApi = createRetryingFetch(options.retry, undefined, options.onRetry);
+    this.client = new MailSlurpClient({ apiKey: options.apiKey, basePath: apiUrl, headers: options.headers, attribution: 'codeceptjs', fetchApi });
+    // client passes fetchApi option to its controllers as an argument they ignore,
+    // so the provider calls controllers created with a configuration holding it
+    const configuration = new Configuration({ apiKey: options.apiKey, basePath: apiUrl, headers: options.headers, fetchApi });
+    this.attachmentController = new AttachmentControllerApi(configuration);
+    this.commonController = new CommonActionsControllerApi(configuration);
+    this.emailController = new EmailControllerApi(configuration);
+    this.inboxController = new InboxControllerApi(configuration);
+    this.waitController = new WaitForControllerApi(configuration);
+    this.webhookController = new WebhookControllerApi(configuration);
+  }
+
+  createInbox(options?: CreateInboxDto): Promise<InboxDto> {
+    if (!options || !Object.keys(options).length) return this.call(() => this.inboxController.createInbox({}));
+    return this.call(() => this.inboxController.createInboxWithOptions({ createInboxDto: options }));
+  }
+
+  getInbox(inboxId: string): Promise<InboxDto> {
+    return this.call(() => this.inboxController.getInbox({ inboxId }), inboxId);
+  }
+
+  async deleteInbox(inboxId: string): Promise<void> {
+    await this.call(() => this.inboxController.deleteInbox({ inboxId }), inboxId);
+  }
+
+  async emptyInbox(inboxId: string): Promise<void> {
+    await this.call(() => this.commonController.emptyInbox({ inboxId }), inboxId);
+  }
+
+  sendEmail(inboxId: string, data: SendEmailOptions): Promise<SentEmailDto> {
+    return this.call(() => this.inboxController.sendEmailAndConfirm({ inboxId, sendEmailOptions: data }), inboxId);
+  }
+
+  async uploadAttachment(options: UploadAttachmentOptions): Promise<string[]> {
+    const ids = await this.call(() => this.attachmentController.uploadAttachment({ uploadAttachmentOptions: options }));
+    return ids.map(id => `${id}`);
+  }
+
+  waitForLatestEmail(inboxId: string, timeout: number): Promise<Email> {
+    return this.wait(() => this.waitController.waitForLatestEmail({ inboxId, timeout }), inboxId, timeout, 'an email');
+  }
+
+  waitForNthEmail(inboxId: string, index: number, timeout: number): Promise<Email> {
+    return this.wait(() => this.waitController.waitForNthEmail({ inboxId, index, timeout }), inboxId, timeout, `email #${index}`);
+  }
+
+  waitForMatchingEmails(matchOptions: MatchOptions, count: number, inboxId: string, timeout: number): Promise<EmailPreview[]> {
+    return this.wait(() => this.waitController.waitForMatchingEmails({ matchOptions, count, inboxId, timeout }), inboxId, timeout, `${count} matching emails`);
+  }
+
+  getEmails(inboxId: string): Promise<EmailPreview[]> {
+    return this.call(() => this.inboxController.getEmails({ inboxId }), inboxId);
+  }
+
+  getEmail(emailId: string): Promise<Email> {
+    return this.call(() => this.emailController.getEmail({ emailId }));
+  }
+
+  async deleteEmail(emailId: string): Promise<void> {
+    await this.call(() => this.emailController.deleteEmail({ emailId }));
+  }
+
+  async markAsRead(emailId: string, read: boolean): Promise<void> {
+    await this.call(() => this.emailController.markAsRead({ emailId, read }));
+  }
+
+  async getRawEmail(emailId: string): Promise<string> {
+    const { content } = await this.call(() => this.emailController.getRawEmailJson({ emailId }));
+    return content;
+  }
+
+  getAttachmentMetaData(attachmentId: string, emailId: string): Promise<AttachmentMetaData> {
+    return this.call(() => this.emailController.getAttachmentMetaData({ attachmentId, emailId }));
+  }
+
+  async downloadAttachment(attachmentId: string, emailId: string): Promise<Buffer> {
+    const { base64FileContents } = await this.call(() => this.emailController.downloadAttachmentBase64({ attachmentId, emailId }));
+    return Buffer.from(base64FileContents, 'base64');
+  }
+
+  async createWebhook(inboxId: string, url: string): Promise<string> {
+    const webhook = await this.call(() => this.webhookController.createWebhook({
+      inboxId,
+      createWebhookOptions: { url, eventName: CreateWebhookOptionsEventNameEnum.NEW_EMAIL, name: 'codeceptjs' },
+    }), inboxId);
+    return webhook.id;
+  }
+
+  async deleteWebhook(inboxId: string, webhookId: string): Promise<void> {
+    await this.call(() => this.webhookController.deleteWebhook({ inboxId, webhookId }));
+  }
+
+  /**
+   * Runs a client call converting its failure to a typed error.
+   * A 404 response of a call for a mailbox means it doesn't exist.
+   */
+  protected async call<T>(fn: () => Promise<T>, inboxId?: string): Promise<T> {
+    try {
+      return await fn();
+    } catch (err) {
+      throw toError(err, inboxId);
+    }
+  }
+
+  /**
+   * Runs a wait for emails, a failure after a timeout passed is reported as `EmailWaitTimeoutError`.
+   */
+  protected async wait<T>(fn: () => Promise<T>, inboxId: string, timeout: number, description: string): Promise<T> {
+    const startedAt = Date.now();
+    try {
+      return await fn();
+    } catch (err) {
+      const elapsed = Date.now() - startedAt;
+      const error = toError(err, inboxId);
+      if (error instanceof AuthenticationError || error instanceof MailboxNotFoundError && elapsed < timeout) throw error;
+      if (error.status === 408 || elapsed >= timeout) {
+        throw new EmailWaitTimeoutError(`Timed out after ${timeout}ms waiting for ${description} in ${inboxId}`, { elapsed, status: error.status });
+      }
+      throw error;
+    }
+  }
+}
+
+function toError(err, inboxId?: string): MailSlurpError {
+  // generated client throws parsed response body for unexpected errors
+  const error = err instanceof MailSlurpError
+    ? err
+    : new MailSlurpError(`MailSlurp request failed: ${err && (err.message || err.error) || JSON.stringify(err)}`, err && err.status);
+  if (error.status === 401 || error.status === 403) {
+    return new AuthenticationError(`MailSlurp rejected API key (status ${error.status}). Check apiKey in helper config. ${error.message}`, error.status);
+  }
+  if (error.status === 404 && inboxId) return new MailboxNotFoundError(inboxId, error.status);
+  return error;
+}
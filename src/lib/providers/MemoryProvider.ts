@@ -0,0 +1,12 @@
+import { LocalProvider } from './LocalProvider';
+
+/**
+ * Backend which keeps mailboxes and emails in memory, without any network access.
+ * Sent emails are delivered instantly to mailboxes of recipients.
+ * Use `addEmail` and `addEmailFromFile` to put fixture emails into mailboxes.
+ */
+export class MemoryProvider extends LocalProvider {
+  protected async transmit(raw: Buffer, from: string, recipients: string[]) {
+    await this.deliver(raw, recipients);
+  }
+}
@@ -0,0 +1,77 @@
+import { SMTPServer } from 'smtp-server';
+import nodemailer from 'nodemailer';
+import type { AddressInfo } from 'net';
+import type { CreateInboxDto } from 'mailslurp-client';
+import { LocalProvider, LocalProviderOptions } from './LocalProvider';
+
+export type SmtpProviderOptions = LocalProviderOptions & {
+  // host to listen on. Default: 127.0.0.1
+  host?: string,
+  // port to listen on, 0 picks a random free port. Default: 2525
+  port?: number,
+}
+
+/**
+ * Backend which runs a local SMTP server and catches all emails sent to it.
+ * Point an application under test to this server to receive its emails into created mailboxes.
+ * Emails sent from mailboxes are delivered through the same server.
+ */
+export class SmtpProvider extends LocalProvider {
+  host: string;
+  port: number;
+  private server: SMTPServer;
+
+  constructor(options: SmtpProviderOptions = {}) {
+    super(options);
+    this.host = options.host || '127.0.0.1';
+    this.port = options.port === undefined ? 2525 : options.port;
+  }
+
+  async start() {
+    if (this.server) return;
+    this.server = new SMTPServer({
+      authOptional: true,
+      disabledCommands: ['STARTTLS'],
+      logger: false,
+      onData: (stream, session, callback) => {
+        const chunks = [];
+        stream.on('data', chunk => chunks.push(chunk));
+        stream.on('end', () => {
+          this.deliver(Buffer.concat(chunks), session.envelope.rcptTo.map(r => r.address))
+            .then(() => callback(), callback);
+        });
+      },
+    });
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      const listening = this.server.listen(this.port, this.host, () => {
+        this.server.off('error', reject);
+        const address = listening.address();
+        if (address && typeof address === 'object') this.port = (address as AddressInfo).port;
+        resolve();
+      });
+    });
+  }
+
+  async stop() {
+    if (!this.server) return;
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  async createInbox(options?: CreateInboxDto) {
+    await this.start();
+    return super.createInbox(options);
+  }
+
+  protected async transmit(raw: Buffer, from: string, recipients: string[]) {
+    await this.start();
+    const transport = nodemailer.createTransport({ host: this.host, port: this.port, secure: false, ignoreTLS: true });
+    try {
+      await transport.sendMail({ envelope: { from, to: recipients }, raw });
+    } finally {
+      transport.close();
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import type { MailProvider } from './MailProvider';
+import { MailSlurpProvider } from './MailSlurpProvider';
+import { MemoryProvider } from './MemoryProvider';
+import { SmtpProvider, SmtpProviderOptions } from './SmtpProvider';
+import type { LocalProviderOptions } from './LocalProvider';
+import type { RetryOptions } from './request';
+
+export type { MailProvider } from './MailProvider';
+export type { EmailFixture } from './LocalProvider';
+export { LocalProvider, matchesOptions } from './LocalProvider';
+export { MailSlurpProvider } from './MailSlurpProvider';
+export { MemoryProvider } from './MemoryProvider';
+export { SmtpProvider } from './SmtpProvider';
+export type { RetryOptions } from './request';
+
+export type ProviderConfig = {
+  apiKey?: string,
+  provider?: 'mailslurp' | 'smtp' | 'memory' | MailProvider,
+  smtp?: SmtpProviderOptions,
+  memory?: LocalProviderOptions,
+  retry?: RetryOptions,
+}
+
+/**
+ * Creates a backend selected by `provider` option of a helper config.
+ * `onRetry` is called with a message before a failed MailSlurp request is retried.
+ */
+export function createProvider(config: ProviderConfig, onRetry?: (message: string) => void): MailProvider {
+  const provider = config.provider || 'mailslurp';
+  if (typeof provider === 'object') return provider;
+  switch (provider) {
+    case 'mailslurp': return new MailSlurpProvider({ apiKey: config.apiKey, retry: config.retry, onRetry });
+    case 'smtp': return new SmtpProvider(config.smtp);
+    case 'memory': return new MemoryProvider(config.memory);
+    default: throw new Error(`Unknown mail provider "${provider}". Use one of: mailslurp, smtp, memory`);
+  }
+}
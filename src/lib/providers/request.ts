@@ -0,0 +1,113 @@
+import { ApiError } from '../errors';
+
+export type RetryOptions = {
+  // number of retries after the first attempt. Default: 3
+  retries?: number,
+  // delay before the first retry in milliseconds, doubled on each next one. Default: 500
+  minDelay?: number,
+  // maximal delay between retries in milliseconds, also caps Retry-After. Default: 10000
+  maxDelay?: number,
+}
+
+type Fetch = typeof fetch;
+
+const retryStatuses = [500, 502, 503, 504];
+const idempotentMethods = ['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS'];
+
+/**
+ * Wraps `fetch` used by MailSlurp client to retry failed requests.
+ *
+ * * Network errors and 5xx responses are retried for idempotent requests: GET, PUT, DELETE and waits for emails.
+ *   A wait is retried only with time left before its `timeout`, and a 504 of a wait is not retried.
+ * * 429 responses are retried for all requests, as a request was not processed. `Retry-After` header is respected.
+ * * A failed response is thrown as `ApiError` with status and a message from response body.
+ */
+export function createRetryingFetch(options: RetryOptions = {}, fetchImpl: Fetch = (input, init) => globalThis.fetch(input, init), onRetry?: (message: string) => void): Fetch {
+  const { retries = 3, minDelay = 500, maxDelay = 10000 } = options;
+
+  return async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const method = (init.method || (input instanceof Request ? input.method : 'GET')).toUpperCase();
+    const wait = new URL(url).pathname.includes('/waitFor');
+    const idempotent = idempotentMethods.includes(method) || wait;
+    // a wait must not outlast its timeout because of retries
+    const timeout = wait ? Number(new URL(url).searchParams.get('timeout')) : 0;
+    const deadline = timeout > 0 ? Date.now() + timeout : null;
+    const canRetry = (attempt: number, delay: number) => attempt < retries && (!deadline || Date.now() + delay < deadline);
+    for (let attempt = 0; ; attempt++) {
+      const backoff = Math.min(maxDelay, minDelay * 2 ** attempt);
+      const request = attempt && deadline ? withTimeout(url, deadline - Date.now()) : input;
+      let response: Response;
+      try {
+        response = await fetchImpl(request, init);
+      } catch (err) {
+        if (!idempotent || !canRetry(attempt, backoff)) {
+          throw new ApiError(`${method} ${path(url)} failed: ${err.message}`, { method, url });
+        }
+        if (onRetry) onRetry(`${method} ${path(url)} failed: ${err.message}. Retrying in ${backoff}ms`);
+        await sleep(backoff);
+        continue;
+      }
+      if (response.status >= 200 && response.status < 300) return response;
+
+      const rateLimited = response.status === 429;
+      const timedOut = wait && response.status === 504;
+      const retryable = rateLimited || (idempotent && !timedOut && retryStatuses.includes(response.status));
+      const delay = rateLimited ? retryAfter(response, maxDelay) ?? backoff : backoff;
+      if (!retryable || !canRetry(attempt, delay)) {
+        const message = await responseMessage(response);
+        throw new ApiError(`${method} ${path(url)} failed with status ${response.status}${message ? `: ${message}` : ''}`, {
+          status: response.status,
+          method,
+          url,
+        });
+      }
+      if (onRetry) onRetry(`${method} ${path(url)} responded with status ${response.status}. Retrying in ${delay}ms`);
+      await sleep(delay);
+    }
+  };
+}
+
+/**
+ * Returns a delay requested by `Retry-After` header in seconds or as a date, or null.
+ */
+function retryAfter(response: Response, maxDelay: number): number {
+  const header = response.headers && response.headers.get('retry-after');
+  if (!header) return null;
+  const delay = /^\d+$/.test(header.trim()) ? parseInt(header, 10) * 1000 : new Date(header).getTime() - Date.now();
+  if (Number.isNaN(delay)) return null;
+  return Math.min(maxDelay, Math.max(0, delay));
+}
+
+async function responseMessage(response: Response): Promise<string> {
+  let text: string;
+  try {
+    text = await response.text();
+  } catch (err) {
+    return '';
+  }
+  try {
+    const body = JSON.parse(text);
+    return body.message || body.error || text;
+  } catch (err) {
+    return text.slice(0, 200);
+  }
+}
+
+function withTimeout(url: string, timeout: number): string {
+  const parsed = new URL(url);
+  parsed.searchParams.set('timeout', `${Math.max(0, Math.round(timeout))}`);
+  return parsed.toString();
+}
+
+function path(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch (err) {
+    return url;
+  }
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,113 @@
+import type { Email, MatchOption, MatchOptions } from 'mailslurp-client';
+import { htmlToText } from './html';
+
+/**
+ * A string is searched for inclusion, a string prefixed with `=` is compared for equality,
+ * a RegExp is tested against a value.
+ */
+export type Matcher = string | RegExp;
+
+export type EmailQuery = {
+  subject?: Matcher,
+  from?: Matcher,
+  to?: Matcher,
+  cc?: Matcher,
+  bcc?: Matcher,
+  // visible text of an email, HTML stripped
+  body?: Matcher,
+  // raw HTML of an email
+  html?: Matcher,
+  headers?: { [name: string]: Matcher },
+  receivedAfter?: Date | string | number,
+  receivedBefore?: Date | string | number,
+  hasAttachments?: boolean,
+  // email must not match a query
+  not?: EmailQuery,
+  // email must match at least one of queries
+  or?: EmailQuery[],
+}
+
+const addressFields = ['from', 'to', 'cc', 'bcc'];
+const serverFields = ['subject', ...addressFields];
+const queryKeys = [...serverFields, 'body', 'html', 'headers', 'receivedAfter', 'receivedBefore', 'hasAttachments', 'not', 'or'];
+
+/**
+ * Converts a query to MailSlurp match options.
+ * Only plain string conditions on subject and addresses are matched by MailSlurp,
+ * `clientSide` is true when the rest of a query must be checked by `matchesQuery`.
+ */
+export function compileQuery(query: EmailQuery): { matchOptions: MatchOptions, clientSide: boolean } {
+  const unknown = unknownKeys(query);
+  if (unknown.length) {
+    throw new Error(`Unknown email query fields: ${unknown.join(', ')}. Use one of: ${queryKeys.join(', ')}`);
+  }
+  const matches: MatchOption[] = [];
+  let clientSide = false;
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined) continue;
+    if (!serverFields.includes(key) || typeof value !== 'string') {
+      clientSide = true;
+      continue;
+    }
+    matches.push((value[0] === '='
+      ? { field: key.toUpperCase(), value: value.slice(1), should: 'EQUAL' }
+      : { field: key.toUpperCase(), value, should: 'CONTAIN' }) as MatchOption);
+  }
+  return { matchOptions: { matches }, clientSide };
+}
+
+/**
+ * Checks that an email matches a query.
+ */
+export function matchesQuery(email: Email, query: EmailQuery): boolean {
+  return Object.entries(query).every(([key, value]: [string, any]) => {
+    if (value === undefined) return true;
+    switch (key) {
+      case 'subject': return matchValue(email.subject, value);
+      case 'from':
+      case 'to':
+      case 'cc':
+      case 'bcc': return [].concat(email[key] || []).some(v => matchValue(v, value));
+      case 'body': return matchValue(htmlToText(email.body), value);
+      case 'html': return matchValue(email.body, value);
+      case 'headers': return Object.entries(value).every(([name, matcher]) => matchValue(findHeader(email, name), matcher as Matcher));
+      case 'receivedAfter': return new Date(email.createdAt).getTime() > new Date(value).getTime();
+      case 'receivedBefore': return new Date(email.createdAt).getTime() < new Date(value).getTime();
+      case 'hasAttachments': return !!(email.attachments && email.attachments.length) === value;
+      case 'not': return !matchesQuery(email, value);
+      case 'or': return value.some(q => matchesQuery(email, q));
+      default: return false;
+    }
+  });
+}
+
+/**
+ * Returns a readable representation of a query for error messages.
+ */
+export function describeQuery(query: EmailQuery): string {
+  return JSON.stringify(query, (_, value) => value instanceof RegExp ? value.toString() : value);
+}
+
+// unknown keys of a query and of nested `not` and `or` queries, like `not.subjet`
+function unknownKeys(query: EmailQuery, prefix = ''): string[] {
+  const unknown = Object.keys(query).filter(key => !queryKeys.includes(key)).map(key => `${prefix}${key}`);
+  if (query.not) unknown.push(...unknownKeys(query.not, `${prefix}not.`));
+  if (query.or) {
+    if (!Array.isArray(query.or)) throw new Error(`Email query field "${prefix}or" must be an array of queries`);
+    query.or.forEach((q, index) => unknown.push(...unknownKeys(q, `${prefix}or[${index}].`)));
+  }
+  return unknown;
+}
+
+function matchValue(actual: string, matcher: Matcher): boolean {
+  if (actual === undefined || actual === null) return false;
+  if (matcher instanceof RegExp) return new RegExp(matcher.source, matcher.flags.replace('g', '')).test(actual);
+  if (matcher[0] === '=') return actual === matcher.slice(1);
+  return actual.includes(matcher);
+}
+
+function findHeader(email: Email, name: string): string {
+  const headers = email.headers || {};
+  const key = Object.keys(headers).find(h => h.toLowerCase() === name.toLowerCase());
+  return key ? headers[key] : undefined;
+}
@@ -0,0 +1,152 @@
+import fs from 'fs';
+import path from 'path';
+import type { Email } from 'mailslurp-client';
+import { htmlToText, isHtml } from './html';
+import { findOtpCandidates } from './otp';
+import { redactLinks } from './Output';
+
+/**
+ * Replaces a volatile value in a snapshot. A string pattern is replaced literally.
+ */
+export type MaskRule = {
+  pattern: string | RegExp,
+  // Default: '[masked]'
+  replacement?: string,
+}
+
+export type SnapshotOptions = {
+  // rules applied before default ones
+  mask?: MaskRule[],
+}
+
+// env variable which makes mismatched snapshots to be overwritten
+export const updateSnapshotsEnv = 'UPDATE_EMAIL_SNAPSHOTS';
+
+const months = 'Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec';
+const days = 'Mon|Tue|Wed|Thu|Fri|Sat|Sun';
+
+const defaultRules: MaskRule[] = [
+  { pattern: /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, replacement: '[uuid]' },
+  { pattern: /\b\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?\b/g, replacement: '[date]' },
+  { pattern: new RegExp(`\\b(?:(?:${days})[a-z]*,? )?\\d{1,2} (?:${months})[a-z]* \\d{4}\\b`, 'g'), replacement: '[date]' },
+  { pattern: new RegExp(`\\b(?:(?:${days})[a-z]*,? )?(?:${months})[a-z]* \\d{1,2},? \\d{4}\\b`, 'g'), replacement: '[date]' },
+  { pattern: /\b\d{1,2}\/\d{1,2}\/\d{2,4}\b/g, replacement: '[date]' },
+  { pattern: /\b\d{1,2}:\d{2}(?::\d{2})?(?:\s?[AP]M)?(?:\s?(?:GMT|UTC|[+-]\d{4}))?/gi, replacement: '[time]' },
+];
+
+/**
+ * Converts an email to a text snapshot: subject, attachment names, visible text and formatted HTML.
+ * Volatile values are masked: custom rules first, then tokens in urls, addresses of helper mailboxes,
+ * one-time codes, uuids, dates and times.
+ */
+export function emailSnapshot(email: Email, attachmentNames: string[], options: { mask?: MaskRule[], mailboxes?: string[] } = {}): string {
+  const html = isHtml(email.body);
+  const sections = [
+    `Subject: ${email.subject || ''}`,
+    `Attachments: ${attachmentNames.join(', ') || 'none'}`,
+    '',
+    'Text:',
+    htmlToText(email.body),
+  ];
+  if (html) sections.push('', 'HTML:', formatHtml(email.body));
+  let snapshot = redactLinks(applyRules(sections.join('\n'), options.mask || []));
+
+  (options.mailboxes || []).forEach((address, index) => {
+    snapshot = snapshot.split(address).join(`[mailbox${index + 1}]`);
+  });
+  const otps = findOtpCandidates(email, { keyword: /code|otp|pin|passcode|password|verification/ });
+  snapshot = applyRules(snapshot, otps.map(otp => ({ pattern: new RegExp(`\\b${otp}\\b`, 'g'), replacement: '[otp]' })));
+  return `${applyRules(snapshot, defaultRules).trimEnd()}\n`;
+}
+
+/**
+ * Returns true when tests run on CI, where missing snapshots are not created, like in `jest --ci`.
+ */
+export function isCI(): boolean {
+  const ci = process.env.CI;
+  return !!ci && ci !== 'false' && ci !== '0';
+}
+
+/**
+ * Compares a snapshot with a stored one. A missing snapshot is saved, unless running on CI without update mode.
+ * A mismatched one is overwritten in update mode or reported with a diff.
+ */
+export async function matchSnapshot(file: string, actual: string, update: boolean, ci = false): Promise<'created' | 'updated' | 'matched'> {
+  const expected = fs.existsSync(file) ? await fs.promises.readFile(file, 'utf8') : null;
+  if (expected === actual) return 'matched';
+  if (expected === null && ci && !update) {
+    throw new Error(`Email snapshot ${file} is missing. New snapshots are not written on CI, `
+      + `run tests locally or with ${updateSnapshotsEnv}=1 to create it`);
+  }
+  if (expected === null || update) {
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, actual);
+    return expected === null ? 'created' : 'updated';
+  }
+  throw new Error(`Email does not match snapshot ${file}\n\n- Snapshot\n+ Received\n\n${diffLines(expected, actual)}\n\n`
+    + `Run tests with ${updateSnapshotsEnv}=1 to update snapshots`);
+}
+
+/**
+ * Returns a line diff of two texts, `-` lines are only in expected text, `+` lines are only in actual one.
+ * Unchanged lines far from changes are collapsed.
+ */
+export function diffLines(expected: string, actual: string, context = 2): string {
+  const a = expected.replace(/\n$/, '').split('\n');
+  const b = actual.replace(/\n$/, '').split('\n');
+  // lengths of longest common subsequences of line suffixes
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push(`  ${a[i++]}`);
+      j++;
+    } else if (i < a.length && (j >= b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push(`- ${a[i++]}`);
+    } else {
+      lines.push(`+ ${b[j++]}`);
+    }
+  }
+  const changed = lines.map((line, index) => line[0] !== ' ' ? index : -1).filter(index => index >= 0);
+  const result: string[] = [];
+  lines.forEach((line, index) => {
+    if (changed.some(c => Math.abs(c - index) <= context)) result.push(line);
+    else if (result[result.length - 1] !== '  ...') result.push('  ...');
+  });
+  return result.join('\n');
+}
+
+/**
+ * Returns a file of a snapshot, names are converted to safe file names.
+ */
+export function snapshotFile(dir: string, name: string): string {
+  const slug = `${name}`.trim().replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '');
+  if (!slug) throw new Error('Snapshot name must be provided, like I.seeEmailMatchesSnapshot(\'welcome-email\')');
+  return path.join(dir, `${slug}.txt`);
+}
+
+// one tag per line, so a diff points to a changed element
+function formatHtml(body: string): string {
+  return body
+    .replace(/>\s*</g, '>\n<')
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+function applyRules(text: string, rules: MaskRule[]): string {
+  return rules.reduce((result, rule) => {
+    const replacement = rule.replacement ?? '[masked]';
+    if (typeof rule.pattern === 'string') return result.split(rule.pattern).join(replacement);
+    const flags = rule.pattern.flags.includes('g') ? rule.pattern.flags : `${rule.pattern.flags}g`;
+    return result.replace(new RegExp(rule.pattern.source, flags), replacement);
+  }, text);
+}
@@ -0,0 +1,73 @@
+import type { Email } from 'mailslurp-client';
+
+/**
+ * Ids of a message and messages it replies to, taken from `Message-ID`, `In-Reply-To` and `References`.
+ * Ids are compared without angle brackets.
+ */
+export type ThreadIds = {
+  messageId: string,
+  inReplyTo: string,
+  references: string[],
+}
+
+export function threadIds(email: Email): ThreadIds {
+  return {
+    messageId: parseMessageIds(email.messageId || headerValue(email, 'message-id'))[0] || null,
+    inReplyTo: parseMessageIds(email.inReplyTo || headerValue(email, 'in-reply-to'))[0] || null,
+    references: parseMessageIds(headerValue(email, 'references')),
+  };
+}
+
+/**
+ * Returns an id of a message an email directly replies to.
+ * `In-Reply-To` is used, or the last of `References` when it is missing.
+ */
+export function parentId(email: Email): string {
+  const { inReplyTo, references } = threadIds(email);
+  return inReplyTo || references[references.length - 1] || null;
+}
+
+/**
+ * Finds emails of the same thread as an email. Emails are linked when one of them
+ * references another one in `In-Reply-To` or `References`, or both reference the same message.
+ * A thread is sorted by received time.
+ */
+export function findThread(emails: Email[], email: Email): Email[] {
+  const all = emails.filter(e => e.id !== email.id);
+  const idsOf = (e: Email) => {
+    const { messageId, inReplyTo, references } = threadIds(e);
+    return [messageId, inReplyTo, ...references].filter(Boolean);
+  };
+  const thread = new Set([emails.find(e => e.id === email.id) || email]);
+  const ids = new Set(idsOf(email));
+  let grown = true;
+  while (grown) {
+    grown = false;
+    for (const candidate of all) {
+      if (thread.has(candidate) || !idsOf(candidate).some(id => ids.has(id))) continue;
+      thread.add(candidate);
+      idsOf(candidate).forEach(id => ids.add(id));
+      grown = true;
+    }
+  }
+  return sortByReceivedTime([...thread]);
+}
+
+/**
+ * Sorts emails by received time, keeping order of emails received at the same time.
+ */
+export function sortByReceivedTime<T extends { createdAt: Date }>(emails: T[]): T[] {
+  return [...emails].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+}
+
+function parseMessageIds(value: string): string[] {
+  if (!value) return [];
+  const bracketed = value.match(/<[^<>]+>/g);
+  return (bracketed || value.split(/\s+/)).map(id => id.replace(/^<|>$/g, '').trim()).filter(Boolean);
+}
+
+function headerValue(email: Email, name: string): string {
+  const headers = email.headers || {};
+  const key = Object.keys(headers).find(h => h.toLowerCase() === name);
+  return key ? headers[key] : null;
+}
@@ -0,0 +1,160 @@
+import http from 'http';
+import { EventEmitter } from 'events';
+import type { AddressInfo } from 'net';
+import { EmailWaitTimeoutError } from './errors';
+
+export type WebhookOptions = {
+  // host the receiver listens on. Default: '127.0.0.1'
+  host?: string,
+  // port the receiver listens on, `0` picks a random port. Default: 0
+  port?: number,
+  // public url of the receiver registered in webhooks, when MailSlurp can't reach it by host and port
+  url?: string,
+  // how often a mailbox is checked when no events arrive, in milliseconds. Default: 5000
+  pollInterval?: number,
+}
+
+// a larger payload is not a NEW_EMAIL event
+const maxBodySize = 1024 * 1024;
+
+/**
+ * HTTP server receiving `NEW_EMAIL` webhook events, so waits for emails resolve as soon as an email arrives.
+ * Each wait also checks a mailbox on start and every `pollInterval`, in case an event is lost.
+ * A body of an event is not trusted: an event only makes waits re-fetch emails of its mailbox from a provider.
+ */
+export class WebhookReceiver {
+  url: string;
+  private server: http.Server;
+  private events = new EventEmitter();
+
+  constructor(private options: WebhookOptions = {}) {
+    this.events.setMaxListeners(0);
+  }
+
+  async start(): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      this.handle(req)
+        .catch(() => 500)
+        .then(status => {
+          res.writeHead(status);
+          res.end();
+        })
+        // a response can't be written, like after a client disconnected
+        .catch(() => res.destroy());
+    });
+    const host = this.options.host || '127.0.0.1';
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.options.port || 0, host, () => resolve());
+    });
+    const { port } = this.server.address() as AddressInfo;
+    this.url = this.options.url || `http://${host}:${port}/`;
+    return this.url;
+  }
+
+  async stop() {
+    if (!this.server) return;
+    await new Promise(resolve => this.server.close(resolve));
+    this.server = null;
+  }
+
+  /**
+   * Resolves when `check` returns a value. A mailbox is checked on start,
+   * on every `NEW_EMAIL` event for it and every `pollInterval` milliseconds.
+   */
+  waitFor<T>(inboxId: string, check: () => Promise<T | undefined>, timeout: number, description: string): Promise<T> {
+    return new Promise((resolve, reject) => {
+      let checking = false;
+      let pending = false;
+      let done = false;
+      const run = async () => {
+        if (checking) {
+          pending = true;
+          return;
+        }
+        checking = true;
+        try {
+          const result = await check();
+          if (result !== undefined && result !== null) {
+            cleanup();
+            resolve(result);
+          }
+        } catch (err) {
+          cleanup();
+          reject(err);
+        } finally {
+          checking = false;
+          if (pending && !done) {
+            pending = false;
+            run();
+          }
+        }
+      };
+      const startedAt = Date.now();
+      const timer = setTimeout(() => {
+        cleanup();
+        reject(new EmailWaitTimeoutError(`Timed out after ${timeout}ms waiting for ${description} in ${inboxId}`, { elapsed: Date.now() - startedAt }));
+      }, timeout);
+      const poller = setInterval(run, this.options.pollInterval || 5000);
+      const cleanup = () => {
+        done = true;
+        clearTimeout(timer);
+        clearInterval(poller);
+        this.events.off(inboxId, run);
+      };
+      this.events.on(inboxId, run);
+      run();
+    });
+  }
+
+  /**
+   * Resolves on the next `NEW_EMAIL` event for any of mailboxes, or after `ms` milliseconds.
+   */
+  nextEvent(inboxIds: string[], ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const done = () => {
+        clearTimeout(timer);
+        inboxIds.forEach(id => this.events.off(id, done));
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      inboxIds.forEach(id => this.events.on(id, done));
+    });
+  }
+
+  private async handle(req: http.IncomingMessage): Promise<number> {
+    if (req.method !== 'POST') return 405;
+    let body: string;
+    try {
+      body = await readBody(req);
+    } catch (err) {
+      return 413;
+    }
+    let payload;
+    try {
+      payload = JSON.parse(body);
+    } catch (err) {
+      return 400;
+    }
+    if (payload && payload.eventName === 'NEW_EMAIL' && typeof payload.inboxId === 'string') this.events.emit(payload.inboxId);
+    return 200;
+  }
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBodySize) {
+        reject(new Error('Webhook payload is too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
@@ -0,0 +1,78 @@
+import fs from 'fs';
+import path from 'path';
+import {expect, jest, test} from '@jest/globals';
+import MailSlurp = require("../src");
+import { createMemoryHelper, createTempDir } from './helpers';
+
+let I: MailSlurp;
+
+describe('Sending emails', function () {
+  beforeEach(async () => {
+    ({ I } = createMemoryHelper());
+    await I._before();
+  });
+
+  afterEach(async () => I._after());
+
+  test('should send templates, attachments, replies and forwards', async () => {
+    const support = await I.haveNewMailbox();
+    const customer = await I.haveNewMailbox();
+    const dir = createTempDir();
+    fs.writeFileSync(path.join(dir, 'order.csv'), 'id,total\n42,10.00');
+
+    await I.sendEmailWithAttachments({
+      to: [support.emailAddress],
+      subject: 'Order {{order.id}}',
+      htmlBody: '<p>Hi, {{name}}!</p>',
+      variables: { name: 'Tom & Jerry', order: { id: 42 } },
+    }, path.join(dir, 'order.csv'));
+    fs.rmSync(dir, { recursive: true });
+
+    I.openMailbox(support);
+    const request = await I.waitForLatestEmail();
+    I.seeEmailSubjectEquals('Order 42');
+    I.seeInEmailBody('<p>Hi, Tom &amp; Jerry!</p>');
+    I.seeEmailAttachment('order.csv');
+    await I.seeAttachmentContentType('order.csv', 'text/csv');
+
+    await I.replyToEmail(request, { text: 'We are on it' });
+    I.openMailbox(customer);
+    await I.waitForLatestEmail();
+    I.seeEmailSubjectEquals('Re: Order 42');
+    I.seeInEmailBody('We are on it');
+    I.seeEmailIsFrom(support.emailAddress);
+    await I.seeEmailHeader('In-Reply-To', request.messageId);
+    await I.seeEmailHeader('References', request.messageId);
+
+    const billing = await I.haveNewMailbox({ localPart: 'billing' });
+    await I.forwardEmail(request, billing.emailAddress, 'Please check');
+    await I.waitForLatestEmail();
+    I.seeEmailSubjectEquals('Fwd: Order 42');
+    I.seeInEmailBody('<p>Please check</p>');
+    I.seeInEmailText(`From: ${customer.emailAddress}`);
+    I.seeInEmailText('Hi, Tom & Jerry!');
+    await I.seeInAttachment('42,10.00', 'order.csv');
+
+    await I.forwardEmail(request, billing.emailAddress, 'Check <b>Tom & Jerry</b>');
+    await I.waitForLatestEmail();
+    I.seeInEmailBody('<p>Check &lt;b&gt;Tom &amp; Jerry&lt;/b&gt;</p>');
+
+    // MailSlurp send options are passed as they are
+    await I.sendEmail({ to: [billing.emailAddress], subject: 'Legacy', body: '<p>Hello</p>', html: true });
+    const legacy = await I.waitForLatestEmail();
+    expect(legacy.isHTML).toBe(true);
+    I.seeInEmailBody('<p>Hello</p>');
+    const send = jest.spyOn(I.provider, 'sendEmail').mockResolvedValue({ id: 'sent', userId: 'user', inboxId: billing.id, sentAt: new Date(), createdAt: new Date() });
+    await I.sendEmail({ toGroup: 'g1', subject: 'Group', body: 'Hi' });
+    await I.sendEmail({ toContacts: ['c1'], subject: 'Contacts', body: 'Hi' });
+    expect(send).toHaveBeenCalledWith(billing.id, expect.objectContaining({ toGroup: 'g1', to: [] }));
+    expect(send).toHaveBeenCalledWith(billing.id, expect.objectContaining({ toContacts: ['c1'], to: [] }));
+    send.mockRestore();
+
+    await expect(I.sendEmail({ subject: 'Nobody' })).rejects.toThrow('Email must have at least one recipient');
+    await expect(I.sendEmail({ to: ['not-an-email'] })).rejects.toThrow('Invalid email address "not-an-email" in "to" field');
+    await expect(I.sendEmail({ to: [support.emailAddress], text: 'Hi {{name}}', variables: {} }))
+      .rejects.toThrow('Template variable "name" is not defined');
+    await expect(I.sendEmailWithAttachments({ to: [support.emailAddress] }, 'missing.pdf')).rejects.toThrow('missing.pdf not found');
+  });
+});
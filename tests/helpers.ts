@@ -0,0 +1,40 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import MailSlurp = require("../src");
+import { MemoryProvider } from '../src/lib/providers';
+
+// globals set by CodeceptJS runner and read by the helper
+export type CodeceptGlobals = {
+  output_dir?: string,
+  codeceptjs?: object,
+}
+
+/**
+ * Creates a helper with in-memory provider, returned together with the provider
+ * so tests can deliver raw messages and inspect stored emails.
+ */
+export function createMemoryHelper(config: MailSlurp.Configuration = {}): { I: MailSlurp, provider: MemoryProvider } {
+  const provider = new MemoryProvider();
+  const I = new MailSlurp({ provider, timeout: 1000, ...config });
+  return { I, provider };
+}
+
+/**
+ * Sets CodeceptJS globals for a test, returns a function restoring previous values.
+ */
+export function setCodeceptGlobals(values: CodeceptGlobals): () => void {
+  const target = global as typeof global & CodeceptGlobals;
+  const previous: CodeceptGlobals = { output_dir: target.output_dir, codeceptjs: target.codeceptjs };
+  Object.assign(target, values);
+  return () => {
+    for (const key of Object.keys(values) as (keyof CodeceptGlobals)[]) {
+      if (previous[key] === undefined) delete target[key];
+      else Object.assign(target, { [key]: previous[key] });
+    }
+  };
+}
+
+export function createTempDir(prefix = 'mailslurp-'): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+}
@@ -3,6 +3,7 @@ require('dotenv').config();
 import {expect, test} from '@jest/globals';
 import MailSlurp = require("../src");
 import fs from 'fs';
+import { setCodeceptGlobals } from './helpers';
 
 const emailObj = {
   id: 'email-id',
@@ -152,4 +153,86 @@ describe('MailSlurp helper', function () {
     await I.seeInEmailSubject('Hello');
     await I.seeEmailSubjectEquals('Hello Test');
   }, 10000);
+
+  test('should grab and follow links from an email', async () => {
+    I.openEmail({
+      ...emailObj,
+      body: `<p>Hi!</p>
+        <a href="https://click.tracker.com/ls/click?url=https%3A%2F%2Fsite.com%2Freset%3Ftoken%3D123">Reset
+          password</a>
+        <a href="https://site.com/unsubscribe">Unsubscribe</a>`,
+    });
+
+    const links = I.grabLinksFromEmail();
+    expect(links.length).toEqual(2);
+    expect(links[0].text).toEqual('Reset password');
+    expect(links[0].url).toEqual('https://site.com/reset?token=123');
+    expect(I.grabLinksFromEmail('unsubscribe').length).toEqual(1);
+    expect(I.grabLinkFromEmail(/token=/)).toEqual('https://site.com/reset?token=123');
+    expect(() => I.grabLinkFromEmail('Login')).toThrow('Found links: "Reset password"');
+
+    const amOnPage = jest.fn();
+    const restore = setCodeceptGlobals({ codeceptjs: { container: { helpers: () => ({ Playwright: { amOnPage } }) } } });
+    try {
+      await I.followLinkFromEmail('Reset password');
+    } finally {
+      restore();
+    }
+    expect(amOnPage).toHaveBeenCalledWith('https://site.com/reset?token=123');
+  });
+
+  test('should grab links from a plain text email', async () => {
+    I.openEmail({ ...emailObj, body: 'Open https://site.com/verify?token=abc. Thanks!' });
+    expect(I.grabLinkFromEmail('verify')).toEqual('https://site.com/verify?token=abc');
+  });
+
+  test('should match links with global regular expressions', async () => {
+    I.openEmail({ ...emailObj, body: '<a href="https://site.com/a">Reset password</a><a href="https://site.com/b">Reset email</a>' });
+    expect(I.grabLinksFromEmail(/Reset/g).map(link => link.text)).toEqual(['Reset password', 'Reset email']);
+  });
+
+  test('should grab one-time codes from an email', async () => {
+    I.openEmail({
+      ...emailObj,
+      subject: 'Sign in to Site',
+      body: `<html><head><style>.c { color: #123456 }</style></head>
+        <body><p>Your verification code is <b>482&nbsp;913</b></p><p>Code: <b>739201</b></p>
+        <a href="https://site.com/login?token=55555555">Sign in</a><p>Valid till 2026</p></body></html>`,
+    });
+
+    expect(I.grabOtpFromEmail({ length: 6 })).toEqual('739201');
+    expect(I.grabOtpFromEmail({ keyword: 'Code:' })).toEqual('739201');
+    expect(() => I.grabOtpFromEmail()).toThrow('Found 2 possible one-time codes in e-mail with subject "Sign in to Site": "739201", "2026"');
+    expect(() => I.seeOtpInEmail({ alphanumeric: true, length: 8 })).toThrow('One-time code (length 8, alphanumeric) not found');
+
+    I.openEmail({ ...emailObj, subject: 'A1B2C3 is your code', body: 'Thanks' });
+    I.seeOtpInEmail({ alphanumeric: true, in: 'subject' });
+    expect(I.grabOtpFromEmail({ alphanumeric: true })).toEqual('A1B2C3');
+  });
+
+  test('should check HTML and visible text of an email', async () => {
+    I.openEmail({
+      ...emailObj,
+      body: `<html><head><style>p { color: red }</style></head><body>
+        <h1>Order   confirmed</h1>
+        <p>Thanks for your order,<br>
+          John &amp; Jane!</p>
+        <table><tr><td class="total"> Total:
+          <b>$10.00</b></td></tr></table>
+        <img class="logo" src="cid:logo" alt="Logo">
+      </body></html>`,
+    });
+
+    I.seeInEmailText('Order confirmed');
+    I.seeInEmailText('Thanks for your order, John & Jane!');
+    I.dontSeeInEmailText('color: red');
+    expect(() => I.seeInEmailText('John &amp; Jane')).toThrow();
+    I.seeElementInEmail('td.total b');
+    I.dontSeeElementInEmail('img:not([alt])');
+    expect(() => I.seeElementInEmail('a.button')).toThrow('Element "a.button" not found in e-mail with subject "Hello Test"');
+    expect(() => I.dontSeeElementInEmail('img')).toThrow('Element "img" was found 1 times');
+    expect(I.grabTextFromEmail('.total')).toEqual('Total: $10.00');
+    expect(I.grabAttributeFromEmail('img.logo', 'src')).toEqual('cid:logo');
+    expect(I.grabAttributeFromEmail('img.logo', 'width')).toBeNull();
+  });
 });
@@ -0,0 +1,68 @@
+import {expect, test} from '@jest/globals';
+import MailSlurp = require("../src");
+import { createMemoryHelper } from './helpers';
+
+let I: MailSlurp;
+
+describe('Email content quality', function () {
+  beforeEach(async () => {
+    ({ I } = createMemoryHelper());
+    await I._before();
+  });
+
+  afterEach(async () => I._after());
+
+  test('should check content quality of emails', async () => {
+    await I.haveNewMailbox();
+    await I.haveEmailInMailbox({
+      from: 'news@shop.com',
+      subject: 'Weekly deals',
+      text: 'Deals of the week',
+      html: '<img src="cid:logo@shop" alt="Shop"><img src="cid:spacer" alt="">'
+        + '<p>Deals of the week</p><a href="https://shop.com/deals">Deals</a>'
+        + '<a href="https://click.mail.com/t?url=https%3A%2F%2Fshop.com%2Funsubscribe%3Fid%3D7">Unsubscribe</a>',
+      attachments: [
+        { filename: 'logo.png', content: Buffer.from('png'), contentType: 'image/png', cid: 'logo@shop' },
+        { filename: 'spacer.gif', content: Buffer.from('gif'), contentType: 'image/gif', cid: 'spacer' },
+      ],
+    });
+    await I.waitForLatestEmail();
+    await I.seeNoBrokenImagesInEmail();
+    I.seeAllLinksAreHttps();
+    I.seeImagesHaveAltText();
+    expect(await I.seeUnsubscribeLink()).toEqual('https://shop.com/unsubscribe?id=7');
+    const clean = await I.grabEmailLintReport();
+    expect(clean.errors).toEqual([]);
+    expect(clean.warnings).toEqual([]);
+    expect(clean.size).toBeGreaterThan(0);
+
+    await I.haveEmailInMailbox({
+      from: 'news@shop.com',
+      subject: 'HUGE SALE TODAY!!!',
+      headers: { 'List-Unsubscribe': '<mailto:unsubscribe@shop.com>, <https://shop.com/unsubscribe/7>' },
+      html: '<img src="cid:banner"><img src="https://shop.com/sale.png">'
+        + '<a href="http://shop.com/sale">Sale</a><a href="javascript:alert(1)">Click</a>'
+        + '<form action="https://shop.com"><input name="email"></form><script>track()</script><p onclick="go()">Go</p>',
+    });
+    await I.waitForEmailMatching({ subject: 'HUGE SALE' });
+    await expect(I.seeNoBrokenImagesInEmail()).rejects.toThrow('Found 1 broken images in e-mail with subject "HUGE SALE TODAY!!!": "cid:banner"');
+    expect(() => I.seeAllLinksAreHttps()).toThrow('Found 1 links without https in e-mail with subject "HUGE SALE TODAY!!!": "Sale" (http://shop.com/sale)');
+    expect(() => I.seeImagesHaveAltText()).toThrow('Found 2 images without alt text in e-mail with subject "HUGE SALE TODAY!!!": "cid:banner", "https://shop.com/sale.png"');
+    expect(await I.seeUnsubscribeLink()).toEqual('https://shop.com/unsubscribe/7');
+
+    const report = await I.grabEmailLintReport();
+    expect(report.errors.map(e => e.message)).toEqual([
+      '<script> is blocked by mail clients, found 1',
+      '<form> is blocked by mail clients, found 1',
+      '<p> has "onclick" event handler',
+      'Link "Click" runs javascript',
+      'Image "cid:banner" is not attached to an email',
+    ]);
+    expect(report.warnings.map(w => w.rule)).toEqual(['subject', 'text-part', 'image-alt', 'image-alt', 'https']);
+
+    await I.haveEmailInMailbox({ from: 'app@shop.com', subject: 'Receipt', text: 'Thanks for your order' });
+    await I.waitForEmailMatching({ subject: 'Receipt' });
+    await expect(I.seeUnsubscribeLink()).rejects.toThrow('No List-Unsubscribe header or unsubscribe link found in e-mail with subject "Receipt"');
+    expect((await I.grabEmailLintReport()).warnings).toEqual([]);
+  });
+});
@@ -0,0 +1,269 @@
+import {expect, test} from '@jest/globals';
+import MailSlurp = require("../src");
+import { MemoryProvider } from '../src/lib/providers';
+import { createMemoryHelper } from './helpers';
+
+let I: MailSlurp;
+let provider: MemoryProvider;
+
+describe('MailSlurp helper with in-memory provider', function () {
+  beforeEach(async () => {
+    ({ I, provider } = createMemoryHelper());
+    await I._before();
+  });
+
+  afterEach(async () => I._after());
+
+  test('should send and receive emails', async () => {
+    expect(I.provider).toBeInstanceOf(MemoryProvider);
+    const mailbox = await I.haveNewMailbox();
+    const other = await I.haveNewMailbox();
+
+    I.openMailbox(mailbox);
+    await I.sendEmail({ to: [other.emailAddress], subject: 'First', body: 'Hello' });
+    await I.sendEmail({ to: [other.emailAddress], subject: 'Second', body: '<p>World</p>', isHTML: true });
+
+    I.openMailbox(other);
+    await I.waitForLatestEmail();
+    I.seeEmailSubjectEquals('Second');
+    I.seeEmailIsFrom(mailbox.emailAddress);
+
+    await I.waitForNthEmail(0);
+    I.seeEmailSubjectEquals('First');
+
+    const email = await I.waitForEmailMatching({ subject: 'Sec' });
+    expect(email.isHTML).toBe(true);
+    expect((await I.grabEmailsMatching({ from: mailbox.emailAddress }, 2)).length).toEqual(2);
+
+    I.openMailbox(mailbox);
+    await expect(I.waitForLatestEmail(0.05)).rejects.toThrow('Timed out after 50ms');
+  });
+
+  test('should resolve waits with emails put into a mailbox', async () => {
+    await I.haveNewMailbox();
+    const waiting = I.waitForEmailMatching({ subject: 'Reset' });
+    await I.haveEmailInMailbox({ from: 'app@site.com', subject: 'Reset password', text: 'Code: 4321' });
+    await waiting;
+    expect(I.grabOtpFromEmail()).toEqual('4321');
+
+    await I.haveEmailInMailbox({
+      subject: 'Invoice',
+      html: '<p>Invoice</p>',
+      attachments: [{ filename: 'invoice.txt', content: 'Total: 10' }],
+    });
+    await I.waitForEmailMatching({ subject: 'Invoice' });
+    I.seeNumberOfEmailAttachments(1);
+    await I.seeEmailAttachment('invoice.txt');
+  });
+
+  test('should put emails from .eml files into a mailbox', async () => {
+    await I.haveNewMailbox();
+    await I.haveEmailInMailbox('tests/fixtures/welcome.eml');
+    const email = await I.waitForLatestEmail();
+    expect(email.from).toEqual('noreply@site.com');
+    I.seeEmailSubjectEquals('Welcome to Site');
+    I.seeInEmailBody('Welcome!');
+    await I.seeEmailAttachment('terms.txt');
+    expect(I.grabOtpFromEmail()).toEqual('123456');
+  });
+
+  test('should wait for emails matching rich queries', async () => {
+    await I.haveNewMailbox();
+    const startedAt = new Date();
+    await I.haveEmailInMailbox({ from: 'shop@site.com', subject: 'Order #12 shipped', html: '<p>Thank&nbsp;you</p>' });
+
+    const waiting = I.waitForEmailMatching({
+      subject: /order #\d+/i,
+      body: 'Thank you',
+      headers: { 'X-Campaign': '=orders' },
+      receivedAfter: startedAt,
+      hasAttachments: true,
+      not: { subject: 'Cancelled' },
+      or: [{ from: '@billing.com' }, { from: '@shop.com' }],
+    });
+    await I.haveEmailInMailbox({ from: 'shop@site.com', subject: 'Order #13 cancelled', text: 'Thank you', headers: { 'X-Campaign': 'orders' } });
+    await I.haveEmailInMailbox({
+      from: 'billing@shop.com',
+      subject: 'Order #14 paid',
+      html: '<p>Thank you</p>',
+      headers: { 'X-Campaign': 'orders' },
+      attachments: [{ filename: 'invoice.txt', content: 'Total: 10' }],
+    });
+    const email = await waiting;
+    expect(email.subject).toEqual('Order #14 paid');
+
+    expect((await I.grabEmailsMatching({ subject: '=Order #12 shipped' })).length).toEqual(1);
+    expect((await I.grabEmailsMatching({ not: { hasAttachments: true } }, 2)).length).toEqual(2);
+    await expect(I.waitForEmailMatching({ html: '<b>' }, 0.1)).rejects.toThrow('Timed out after 100ms');
+    // @ts-expect-error an unknown field
+    await expect(I.waitForEmailMatching({ title: 'Order' })).rejects.toThrow('Unknown email query fields: title');
+    // @ts-expect-error unknown nested fields
+    await expect(I.waitForEmailMatching({ not: { subjet: 'Order' }, or: [{ from: 'shop' }, { form: 'billing' }] }))
+      .rejects.toThrow('Unknown email query fields: not.subjet, or[1].form');
+  });
+
+  test('should check sender and recipients', async () => {
+    const mailbox = await I.haveNewMailbox();
+    await I.haveEmailInMailbox({
+      from: '"My Shop" <Shop@Site.com>',
+      to: ['"Doe, John" <john@doe.com>', 'jane@doe.com'],
+      cc: 'Manager <manager@site.com>',
+      replyTo: 'Support <support@site.com>',
+      subject: 'Order',
+      text: 'Thanks',
+    });
+    await I.waitForLatestEmail();
+
+    I.seeEmailIsTo('john@doe.com');
+    I.seeEmailIsTo('"Doe, John" <JOHN@doe.com>');
+    I.seeEmailIsCc('manager@site.com');
+    I.seeEmailIsBcc(mailbox.emailAddress);
+    I.seeEmailReplyTo('support@site.com');
+    I.seeEmailSenderName('My Shop');
+    I.seeEmailRecipients({ to: ['jane@doe.com', 'john@doe.com'], cc: ['manager@site.com'] });
+    expect(() => I.seeEmailIsTo('"Jane Doe" <jane@doe.com>')).toThrow('Expected ""Jane Doe" <jane@doe.com>" in to of e-mail with subject "Order". Found: "Doe, John" <john@doe.com>, jane@doe.com');
+    expect(() => I.seeEmailIsTo('doe.com')).toThrow();
+    expect(() => I.seeEmailRecipients({ to: ['john@doe.com'] })).toThrow();
+  });
+
+  test('should check that no emails arrive', async () => {
+    I.config.pollInterval = 20;
+    await I.haveNewMailbox();
+    await I.haveEmailInMailbox({ subject: 'Welcome', text: 'Hi' });
+    const marker = await I.grabMailboxMarker();
+    await I.seeEmailCount(1);
+    await I.seeNoNewEmailsSince(marker);
+    await I.dontReceiveEmail(0.1);
+
+    setTimeout(() => I.haveEmailInMailbox({ from: 'news@site.com', subject: 'Weekly digest', text: 'News' }), 30);
+    await I.dontReceiveEmailMatching({ subject: 'Newsletter' }, 0.1);
+    await expect(I.seeNoNewEmailsSince(marker)).rejects.toThrow('but received: "Weekly digest" from news@site.com');
+    await I.seeEmailCount(2);
+
+    setTimeout(() => I.haveEmailInMailbox({ from: 'news@site.com', subject: 'Promo', text: 'Sale' }), 30);
+    const startedAt = Date.now();
+    await expect(I.dontReceiveEmail(5)).rejects.toThrow(/Expected no emails in .+, but received: "Promo" from news@site.com/);
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+  });
+
+  test('should wait for emails in multiple mailboxes', async () => {
+    I.config.pollInterval = 20;
+    const alice = await I.haveNewMailbox();
+    const bob = await I.haveNewMailbox();
+    const carol = await I.haveNewMailbox();
+    const invite = (mailbox: MailSlurp.Inbox, subject: string) => provider.addEmail({ subject, text: 'Join us' }, [mailbox.emailAddress]);
+
+    await invite(alice, 'Reminder');
+    setTimeout(() => invite(alice, 'Invitation to team'), 20);
+    setTimeout(() => invite(bob, 'Invitation to team'), 40);
+    const emails = await I.waitForEmailsInMailboxes([alice, bob], { subject: 'Invitation' });
+    expect(emails[alice.emailAddress].subject).toEqual('Invitation to team');
+    expect(emails[bob.emailAddress].inboxId).toEqual(bob.id);
+
+    await expect(I.waitForEmailsInMailboxes([alice, bob, carol], { subject: 'Invitation' }, 0.1))
+      .rejects.toThrow(`No emails received in: ${carol.emailAddress}`);
+
+    setTimeout(() => invite(carol, 'Approval required'), 20);
+    const email = await I.waitForEmailInAnyMailbox({ subject: 'Approval' });
+    expect(email.subject).toEqual('Approval required');
+    expect(I.currentMailbox).toBe(carol);
+    I.seeEmailSubjectEquals('Approval required');
+  });
+
+  test('should delete only created mailboxes after a test', async () => {
+    const existing = await I.provider.createInbox();
+    await I.haveExistingMailbox(existing.id);
+    const created = await I.haveNewMailbox();
+    await I._after();
+    await expect(I.provider.getInbox(existing.id)).resolves.toMatchObject({ id: existing.id });
+    await expect(I.provider.getInbox(created.id)).rejects.toThrow('not found');
+
+    const keeper = new MailSlurp({ provider: I.provider, cleanup: 'never' });
+    keeper._before();
+    const kept = await keeper.haveNewMailbox();
+    await keeper._after();
+    await expect(I.provider.getInbox(kept.id)).resolves.toMatchObject({ id: kept.id });
+    // @ts-expect-error an unknown policy
+    expect(() => new MailSlurp({ provider: 'memory', cleanup: 'sometimes' })).toThrow('Unknown cleanup policy "sometimes"');
+  });
+
+  test('should create mailboxes with options', async () => {
+    ({ I } = createMemoryHelper({ mailbox: { tags: ['e2e'], localPart: 'user-{random}' } }));
+    I._before({ title: 'Reset password: sends a link' });
+    const mailbox = await I.haveNewMailbox({ name: 'Reset {test}', localPart: '{test}', expiresIn: 60000 });
+    expect(`${mailbox}`).toEqual('reset-password-sends-a-link@example.test');
+    expect(mailbox.name).toEqual('Reset reset-password-sends-a-link');
+    expect(mailbox.tags).toEqual(['e2e']);
+    expect(mailbox.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    await expect(I.haveNewMailbox({ localPart: '{test}' })).rejects.toThrow('already exists');
+
+    const other = await I.haveNewMailbox({ domain: 'acme.test' });
+    expect(other.emailAddress).toMatch(/^user-[0-9a-f]{8}@acme\.test$/);
+    expect(I.currentMailbox).toBe(other);
+    // @ts-expect-error an unknown option
+    await expect(I.haveNewMailbox({ domian: 'acme.test' })).rejects.toThrow('Unknown mailbox options: domian');
+  });
+
+  test('should report wait timeouts with a query', async () => {
+    const mailbox = await I.haveNewMailbox();
+    const error = await I.waitForEmailMatching({ subject: 'Invoice', body: /paid/ }, 0.05).catch(err => err);
+    expect(error).toBeInstanceOf(MailSlurp.EmailWaitTimeoutError);
+    expect(error.query).toEqual({ subject: 'Invoice', body: /paid/ });
+    expect(error.elapsed).toBeGreaterThanOrEqual(50);
+    expect(error.message).toEqual(`Timed out after 50ms waiting for 1 emails matching {"subject":"Invoice","body":"/paid/"} in ${mailbox.emailAddress}`);
+    await expect(I.waitForLatestEmail(0.05)).rejects.toThrow(MailSlurp.EmailWaitTimeoutError);
+    await expect(I.haveExistingMailbox('unknown')).rejects.toThrow(MailSlurp.MailboxNotFoundError);
+  });
+
+  test('should ignore old emails and manage read state', async () => {
+    const created = await I.haveNewMailbox();
+    await I.haveEmailInMailbox({ from: 'app@site.com', subject: 'Old invitation', text: 'Join us' });
+    await I.haveEmailInMailbox({ from: 'app@site.com', subject: 'Old reminder', text: 'Reminder' });
+
+    const existing = new MailSlurp({ provider: I.provider, timeout: 300 });
+    existing._before();
+    try {
+      await existing.haveExistingMailbox(created.id);
+      const marker = await existing.ignoreReceivedEmails();
+      expect(marker.emailIds.length).toEqual(2);
+      await expect(existing.waitForLatestEmail()).rejects.toThrow(MailSlurp.EmailWaitTimeoutError);
+      await expect(existing.waitForEmailMatching({ subject: 'invitation' })).rejects.toThrow(MailSlurp.EmailWaitTimeoutError);
+      await expect(existing.waitForEmailInAnyMailbox({ subject: 'Old' })).rejects.toThrow(MailSlurp.EmailWaitTimeoutError);
+
+      await existing.haveEmailInMailbox({ from: 'app@site.com', subject: 'New invitation', text: 'Join us' });
+      await existing.haveEmailInMailbox({ from: 'app@site.com', subject: 'New reminder', text: 'Reminder' });
+      expect((await existing.waitForLatestEmail()).subject).toEqual('New reminder');
+      expect((await existing.waitForNthEmail(0)).subject).toEqual('New invitation');
+      expect((await existing.waitForEmailMatching({ subject: 'invitation' })).subject).toEqual('New invitation');
+      expect((await existing.grabEmailsMatching({ from: 'app@site.com' }, 2)).map(e => e.subject)).toEqual(['New invitation', 'New reminder']);
+      await existing.seeEmailCount(4);
+    } finally {
+      await existing._after();
+    }
+
+    await I.haveNewMailbox();
+    const first = await I.haveEmailInMailbox({ from: 'app@site.com', subject: 'First', text: 'One' });
+    await I.haveEmailInMailbox({ from: 'app@site.com', subject: 'Second', text: 'Two' });
+    await I.haveEmailInMailbox({ from: 'app@site.com', subject: 'Third', text: 'Three' });
+    await I.markEmailAsRead(first);
+    expect(first.read).toBe(true);
+    expect((await I.waitForUnreadEmail()).subject).toEqual('Second');
+    expect((await I.waitForUnreadEmail({ subject: 'Th' })).subject).toEqual('Third');
+    await expect(I.waitForUnreadEmail()).rejects.toThrow(/Timed out after 1000ms waiting for 1 unread emails matching \{\}/);
+
+    await I.deleteEmail(first);
+    await I.seeEmailCount(2);
+    await I.waitForEmailMatching({ subject: 'Third' });
+    await I.deleteEmail();
+    await I.seeEmailCount(1);
+    expect(() => I.seeInEmailSubject('Third')).toThrow('No email opened');
+    await I.emptyMailbox();
+    await I.seeEmailCount(0);
+
+    const mailbox = await I.haveNewMailbox();
+    await I.haveEmailInMailbox({ from: 'app@site.com', subject: 'Reminder', text: 'Pay soon' });
+    await I.haveEmailInMailbox({ from: 'app@site.com', subject: 'Invoice', text: 'Pay now' });
+    expect((await I.waitForUnreadEmail({ body: 'now' })).subject).toEqual('Invoice');
+    expect((await I.provider.getEmails(mailbox.id)).map(e => [e.subject, e.read])).toEqual([['Reminder', false], ['Invoice', true]]);
+  });
+});
@@ -0,0 +1,132 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import {expect, test} from '@jest/globals';
+import MailSlurp = require("../src");
+import { MemoryProvider } from '../src/lib/providers';
+import { createMemoryHelper, createTempDir, setCodeceptGlobals } from './helpers';
+
+let I: MailSlurp;
+let provider: MemoryProvider;
+
+describe('MIME parts and attachments of emails', function () {
+  beforeEach(async () => {
+    ({ I, provider } = createMemoryHelper());
+    await I._before();
+  });
+
+  afterEach(async () => I._after());
+
+  test('should download and inspect attachments', async () => {
+    await I.haveNewMailbox();
+    const content = zlib.deflateSync('BT /F1 12 Tf 72 712 Td (Invoice #42) Tj 0 -20 Td [(Total: ) -250 (10) ( EUR)] TJ ET');
+    const pdf = Buffer.concat([
+      Buffer.from('%PDF-1.4\n4 0 obj\n<< /Length ' + content.length + ' /Filter /FlateDecode >>\nstream\n'),
+      content,
+      Buffer.from('\nendstream\nendobj\n%%EOF\n'),
+    ]);
+    await I.haveEmailInMailbox({
+      subject: 'Your export',
+      text: 'See attached',
+      attachments: [
+        { filename: 'report.csv', content: 'name,email\njohn,john@doe.com', contentType: 'text/csv' },
+        { filename: 'invoice.pdf', content: pdf, contentType: 'application/pdf' },
+        { filename: 'logo.png', content: Buffer.from([137, 80, 78, 71]), contentType: 'image/png' },
+      ],
+    });
+    await I.waitForLatestEmail();
+
+    const attachment = await I.grabAttachment('report');
+    expect(attachment.name).toEqual('report.csv');
+    expect(attachment.content.toString()).toContain('john@doe.com');
+    expect((await I.grabAttachment(2)).content.length).toEqual(4);
+    await expect(I.grabAttachment('missing')).rejects.toThrow('Found attachments: "report.csv,invoice.pdf,logo.png"');
+
+    await I.seeAttachmentContentType('invoice.pdf', 'application/pdf');
+    await I.seeAttachmentSize(2, 4);
+    await I.seeAttachmentSize('report.csv', { min: 10, max: 100 });
+    await I.seeInAttachment('john@doe.com');
+    await I.seeInAttachment('Total: 10 EUR', 'invoice.pdf');
+    await I.dontSeeInAttachment('Total', 'report.csv');
+    await expect(I.seeInAttachment('PNG', 'logo.png')).rejects.toThrow('Can\'t read text from attachment "logo.png"');
+
+    const outputDir = createTempDir();
+    const restore = setCodeceptGlobals({ output_dir: outputDir });
+    try {
+      const file = await I.saveAttachment('invoice', 'downloads/invoice.pdf');
+      expect(file).toEqual(path.join(outputDir, 'downloads/invoice.pdf'));
+      expect(fs.readFileSync(file)).toEqual(pdf);
+    } finally {
+      restore();
+      fs.rmSync(outputDir, { recursive: true });
+    }
+  });
+
+  test('should check headers and MIME parts', async () => {
+    await I.haveNewMailbox();
+    await I.haveEmailInMailbox({
+      from: '"Shop" <shop@site.com>',
+      replyTo: 'support@site.com',
+      subject: 'Привет, order confirmed',
+      text: 'Grüße from Shop',
+      html: '<p>Grüße from <b>Shop</b></p>',
+      headers: {
+        'List-Unsubscribe': '<https://site.com/unsubscribe?u=1>',
+        'Content-Language': 'de',
+        'X-Campaign': 'orders',
+      },
+      attachments: [{ filename: 'event.ics', content: 'BEGIN:VCALENDAR', contentType: 'text/calendar' }],
+    });
+    await I.waitForLatestEmail();
+
+    expect(await I.grabRawEmail()).toContain('X-Campaign: orders');
+    expect(await I.grabEmailHeader('reply-to')).toEqual('support@site.com');
+    expect(await I.grabEmailHeader('Subject')).toEqual('Привет, order confirmed');
+    expect(await I.grabEmailHeader('X-Missing')).toBeNull();
+    await I.seeEmailHeader('List-Unsubscribe', 'https://site.com/unsubscribe');
+    await I.seeEmailHeader('Content-Language', /^de$/);
+    await I.dontSeeEmailHeader('X-Debug');
+    await expect(I.seeEmailHeader('X-Debug')).rejects.toThrow('Header "X-Debug" not found');
+
+    await I.seeEmailHasPart('text/plain');
+    await I.seeEmailHasPart('text/html');
+    await I.seeEmailHasPart('multipart/alternative');
+    await expect(I.seeEmailHasPart('application/pdf')).rejects.toThrow('Found parts: multipart/mixed, multipart/alternative, text/plain, text/html, text/calendar');
+    expect(await I.grabEmailPart('text/plain')).toEqual('Grüße from Shop');
+    expect(await I.grabEmailPart('text/html')).toEqual('<p>Grüße from <b>Shop</b></p>');
+  });
+
+  test('should keep MIME structure and charsets of parts', async () => {
+    const mailbox = await I.haveNewMailbox();
+    await provider.deliver([
+      'From: shop@site.com',
+      `To: ${mailbox.emailAddress}`,
+      'Subject: Flat parts',
+      'MIME-Version: 1.0',
+      'Content-Type: multipart/mixed; boundary="b1"',
+      '',
+      '--b1',
+      'Content-Type: text/plain; charset=iso-8859-1',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      'Gr=FC=DFe',
+      '--b1',
+      'Content-Type: text/html; charset=utf-8',
+      'X-Part: html',
+      '',
+      '<p>Hi</p>',
+      '--b1--',
+      '',
+    ].join('\r\n'), [mailbox.emailAddress]);
+    await I.waitForLatestEmail();
+
+    await expect(I.seeEmailHasPart('multipart/alternative')).rejects.toThrow('Found parts: multipart/mixed, text/plain, text/html');
+    expect(await I.grabEmailPart('text/plain')).toEqual('Grüße');
+    const message = await I._grabMimeMessage();
+    expect(message.parts.map(p => p.charset)).toEqual(['iso-8859-1', 'utf-8']);
+    expect(message.parts[1].headers).toEqual([
+      { name: 'Content-Type', value: 'text/html; charset=utf-8' },
+      { name: 'X-Part', value: 'html' },
+    ]);
+  });
+});
@@ -0,0 +1,96 @@
+import fs from 'fs';
+import {expect, jest, test} from '@jest/globals';
+import MailSlurp = require("../src");
+import { MemoryProvider } from '../src/lib/providers';
+import { MailboxPool } from '../src/lib/MailboxPool';
+import { createTempDir } from './helpers';
+
+describe('Mailbox pool', function () {
+  test('should lease mailboxes from a pool shared by workers', async () => {
+    const provider = new MemoryProvider();
+    const dir = createTempDir('mailslurp-pool-');
+    const worker = (cleanup: MailSlurp.Configuration['cleanup'] = 'always', pool = {}) => new MailSlurp({ provider, pool: { size: 2, dir, timeout: 100, leaseTimeout: 300, ...pool }, cleanup, pollInterval: 10 });
+    const first = worker();
+    const second = worker('onSuccess');
+    await first._beforeSuite();
+    await second._beforeSuite();
+    first._before();
+    second._before();
+
+    const a = await first.haveNewMailbox();
+    const b = await second.haveNewMailbox();
+    expect(a.id).not.toEqual(b.id);
+    expect(`${a}`).toEqual(a.emailAddress);
+    const third = worker();
+    third._before();
+    await expect(third.haveNewMailbox()).rejects.toThrow('waiting for a free mailbox in a pool of 2');
+
+    await provider.addEmail({ subject: 'Hello' }, [a.emailAddress, b.emailAddress]);
+    await first._after();
+    expect(await provider.getEmails(a.id)).toEqual([]);
+    third._before();
+    expect((await third.haveNewMailbox()).id).toEqual(a.id);
+    await third._after();
+
+    // a failed test releases its mailbox with emails
+    await second._failed();
+    await second._after();
+    expect((await provider.getEmails(b.id)).length).toEqual(1);
+    first._before();
+    third._before();
+    await first.haveNewMailbox();
+    await third.haveNewMailbox();
+    await first._after();
+    await third._after();
+
+    // or keeps it leased on request
+    const keeper = worker('onSuccess', { keepLeaseOnFailure: true });
+    keeper._before();
+    const kept = await keeper.haveNewMailbox();
+    await keeper._failed();
+    await keeper._after();
+    first._before();
+    expect((await first.haveNewMailbox()).id).not.toEqual(kept.id);
+    await expect(third.haveNewMailbox()).rejects.toThrow('waiting for a free mailbox in a pool of 2');
+    // until its lease expires
+    await new Promise(resolve => setTimeout(resolve, 350));
+    expect((await third.haveNewMailbox()).id).toEqual(kept.id);
+    await third._after();
+    await first._after();
+    await first._finishTest();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should refresh leases of running tests', async () => {
+    const provider = new MemoryProvider();
+    const dir = createTempDir('mailslurp-pool-');
+    const pool = () => new MailboxPool(provider, { size: 1, dir, leaseTimeout: 60, timeout: 100, pollInterval: 10 });
+    const running = pool();
+    await running.provision();
+    const inbox = await running.lease();
+    // a test runs longer than leaseTimeout
+    await new Promise(resolve => setTimeout(resolve, 200));
+    const other = pool();
+    await expect(other.lease()).rejects.toThrow('waiting for a free mailbox in a pool of 1');
+    await running.release(inbox.id);
+    expect((await other.lease()).id).toEqual(inbox.id);
+    await other.destroy();
+  });
+
+  test('should keep pooled mailboxes when they fail to lease', async () => {
+    const provider = new MemoryProvider();
+    const dir = createTempDir('mailslurp-pool-');
+    const pool = new MailboxPool(provider, { size: 1, dir, timeout: 100, pollInterval: 10 });
+    await pool.provision();
+    jest.spyOn(provider, 'getInbox').mockRejectedValueOnce(new Error('socket hang up'));
+    await expect(pool.lease()).rejects.toThrow('socket hang up');
+    jest.spyOn(provider, 'emptyInbox').mockRejectedValueOnce(new Error('Service Unavailable'));
+    await expect(pool.lease()).rejects.toThrow('Service Unavailable');
+    const inbox = await pool.lease();
+
+    await provider.deleteInbox(inbox.id);
+    await pool.release(inbox.id);
+    await expect(pool.lease()).rejects.toThrow('Mailbox pool in');
+    await pool.destroy();
+  });
+});
@@ -0,0 +1,119 @@
+import fs from 'fs';
+import path from 'path';
+import {expect, jest, test} from '@jest/globals';
+import MailSlurp = require("../src");
+import { createMemoryHelper, createTempDir, setCodeceptGlobals } from './helpers';
+
+let I: MailSlurp;
+
+describe('Emails in test reports and logs', function () {
+  beforeEach(async () => {
+    ({ I } = createMemoryHelper());
+    await I._before();
+  });
+
+  afterEach(async () => I._after());
+
+  test('should open an email in browser with inline images', async () => {
+    await I.haveNewMailbox();
+    await I.haveEmailInMailbox({
+      subject: 'Welcome',
+      html: '<html><head><title>Welcome</title></head><body><img src="cid:logo@site"><p>Hi</p></body></html>',
+      attachments: [{ filename: 'logo.png', content: Buffer.from([137, 80, 78, 71]), contentType: 'image/png', cid: 'logo@site' }],
+    });
+    await I.waitForLatestEmail();
+
+    const outputDir = createTempDir();
+    const amOnPage = jest.fn();
+    const restore = setCodeceptGlobals({
+      output_dir: outputDir,
+      codeceptjs: { container: { helpers: () => ({ WebDriver: { amOnPage } }) } },
+    });
+    try {
+      const file = await I.openEmailInBrowser();
+      expect(amOnPage).toHaveBeenCalledWith(`file://${file}`);
+      const html = fs.readFileSync(file, 'utf8');
+      expect(html).toContain('<head><meta charset="utf-8"><title>');
+      expect(html).toContain('<img src="data:image/png;base64,iVBORw==">');
+    } finally {
+      restore();
+      fs.rmSync(outputDir, { recursive: true });
+    }
+  });
+
+  test('should attach opened emails to a failed test', async () => {
+    await I.haveNewMailbox();
+    await I.haveEmailInMailbox({ from: 'shop@site.com', subject: 'Order <42> confirmed', html: '<body><p>Thanks!</p></body>' });
+    await I.haveEmailInMailbox({ from: 'shop@site.com', subject: 'Order shipped', text: 'On the way' });
+    await I.waitForNthEmail(0);
+    await I.waitForEmailMatching({ subject: 'shipped' });
+    await I.waitForLatestEmail();
+
+    const outputDir = createTempDir();
+    const addAttachment = jest.fn();
+    const restore = setCodeceptGlobals({
+      output_dir: outputDir,
+      codeceptjs: { container: { plugins: () => ({ addAttachment }) } },
+    });
+    try {
+      const test: { title: string, artifacts?: Record<string, string> } = { title: 'Checkout: sends receipts' };
+      await I._passed(test);
+      expect(test.artifacts).toBeUndefined();
+
+      await I._failed(test);
+      const dir = path.join(outputDir, 'emails', 'checkout-sends-receipts');
+      expect(fs.readdirSync(dir).sort()).toEqual(['1-order-42-confirmed.eml', '1-order-42-confirmed.html', '2-order-shipped.eml', '2-order-shipped.html']);
+      expect(test.artifacts.email1).toEqual(path.join(dir, '1-order-42-confirmed.html'));
+      const html = fs.readFileSync(test.artifacts.email1, 'utf8');
+      expect(html).toContain('<td>Order &lt;42&gt; confirmed</td>');
+      expect(html).toContain('<p>Thanks!</p>');
+      expect(fs.readFileSync(test.artifacts.email2Source, 'utf8')).toContain('Subject: Order shipped');
+      expect(addAttachment).toHaveBeenCalledWith('Email: Order shipped', expect.any(Buffer), 'text/html');
+      expect(addAttachment).toHaveBeenCalledTimes(4);
+    } finally {
+      restore();
+      fs.rmSync(outputDir, { recursive: true });
+    }
+  });
+
+  test('should log through CodeceptJS output with secrets masked', async () => {
+    const print = jest.fn();
+    const emit = jest.fn();
+    const amOnPage = jest.fn();
+    const restore = setCodeceptGlobals({
+      codeceptjs: {
+        output: { print, error: jest.fn() },
+        event: { dispatcher: { emit } },
+        container: { helpers: () => ({ Playwright: { amOnPage } }) },
+      },
+    });
+    try {
+      ({ I } = createMemoryHelper({ apiKey: 'sk-live-12345', logLevel: 'debug' }));
+      I._before();
+      await I.haveNewMailbox();
+      await I.haveEmailInMailbox({
+        subject: 'Your code is 482913',
+        html: '<a href="https://site.com/reset/3f9a8b7c6d5e4f3a2b1c?token=abc&lang=en">Reset</a>',
+      });
+      await I.waitForLatestEmail();
+      I.grabOtpFromEmail();
+      await I.followLinkFromEmail('Reset');
+      I.logger.info('Using key sk-live-12345');
+
+      const logs = print.mock.calls.map(([msg]) => msg).join('\n');
+      expect(logs).toMatch(/waitForLatestEmail finished in \d+ms/);
+      expect(logs).toContain('Received email from fixture@example.test with Your code is ***');
+      expect(logs).toContain('Opening https://site.com/reset/***?token=***&lang=en from email');
+      expect(logs).toContain('Using key ***');
+      expect(logs).not.toContain('482913');
+      expect(emit).toHaveBeenCalledWith('mailslurp.log', expect.objectContaining({ level: 'debug', step: 'waitForLatestEmail' }));
+
+      print.mockClear();
+      I.logger.level = 'warn';
+      await I.grabEmailsMatching({ subject: 'code' });
+      expect(print).not.toHaveBeenCalled();
+    } finally {
+      restore();
+    }
+  });
+});
@@ -0,0 +1,87 @@
+import nock from 'nock';
+import {expect, test} from '@jest/globals';
+import MailSlurp = require("../src");
+import { MailSlurpProvider } from '../src/lib/providers';
+import { createRetryingFetch } from '../src/lib/providers/request';
+
+nock.disableNetConnect();
+
+let I;
+
+describe('MailSlurp API requests', function () {
+  afterEach(() => nock.cleanAll());
+
+  test('should retry failed requests and report typed errors', async () => {
+    I = new MailSlurp({ apiKey: 'someApiKey', retry: { minDelay: 1 } });
+    I._before();
+    const host = /mailslurp\.com/;
+    nock(host).get('/inboxes/flaky').reply(503).get('/inboxes/flaky').reply(200, { id: 'flaky', emailAddress: 'flaky@test.de' });
+    expect(`${await I.haveExistingMailbox('flaky')}`).toEqual('flaky@test.de');
+
+    nock(host).get('/inboxes/missing').reply(404, { message: 'Inbox not found' });
+    await expect(I.haveExistingMailbox('missing')).rejects.toThrow(MailSlurp.MailboxNotFoundError);
+
+    nock(host).get('/inboxes/private').reply(401, { message: 'Invalid API key' });
+    const error = await I.haveExistingMailbox('private').catch(err => err);
+    expect(error).toBeInstanceOf(MailSlurp.AuthenticationError);
+    expect(error.message).toContain('MailSlurp rejected API key (status 401)');
+    expect(error.message).toContain('Invalid API key');
+
+    nock(host).get('/inboxes/broken').times(3).reply(500, { message: 'Server error' });
+    I = new MailSlurp({ apiKey: 'someApiKey', retry: { retries: 2, minDelay: 1 } });
+    await expect(I.provider.getInbox('broken')).rejects.toThrow('GET /inboxes/broken failed with status 500: Server error');
+  });
+
+  test('should send configured headers with retried requests', async () => {
+    const provider = new MailSlurpProvider({ apiKey: 'someApiKey', headers: { 'x-team': 'qa' }, retry: { minDelay: 1 } });
+    nock(/mailslurp\.com/, { reqheaders: { 'x-team': 'qa', 'x-api-key': 'someApiKey' } })
+      .get('/inboxes/flaky').reply(503)
+      .get('/inboxes/flaky').reply(200, { id: 'flaky', emailAddress: 'flaky@test.de' });
+    expect((await provider.getInbox('flaky')).emailAddress).toEqual('flaky@test.de');
+  });
+
+  test('should wait for rate limits before retrying', async () => {
+    const responses = [
+      new Response(null, { status: 429, headers: { 'retry-after': '0' } }),
+      new Response(null, { status: 503 }),
+      new Response(null, { status: 200 }),
+    ];
+    const fetch = jest.fn(async (input: RequestInfo | URL, init?: RequestInit) => responses.shift());
+    const onRetry = jest.fn();
+    const retrying = createRetryingFetch({ minDelay: 1 }, fetch, onRetry);
+
+    // POST is retried only when rate limited
+    await expect(retrying('https://api.mailslurp.com/inboxes', { method: 'POST' }))
+      .rejects.toMatchObject({ name: 'ApiError', status: 503 });
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith('POST /inboxes responded with status 429. Retrying in 0ms');
+
+    responses.unshift(new Response(null, { status: 503 }));
+    expect((await retrying('https://api.mailslurp.com/waitForLatestEmail?inboxId=1', { method: 'GET' })).status).toEqual(200);
+  });
+
+  test('should retry waits only within their timeout', async () => {
+    const urls: string[] = [];
+    const fetch = jest.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      urls.push(`${input}`);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      return new Response(null, { status: 503 });
+    });
+    const retrying = createRetryingFetch({ retries: 10, minDelay: 1 }, fetch);
+    const startedAt = Date.now();
+    await expect(retrying('https://api.mailslurp.com/waitForLatestEmail?inboxId=1&timeout=200', { method: 'GET' }))
+      .rejects.toMatchObject({ name: 'ApiError', status: 503 });
+    expect(Date.now() - startedAt).toBeLessThan(400);
+    expect(fetch.mock.calls.length).toBeLessThan(6);
+    const timeouts = urls.map(url => Number(new URL(url).searchParams.get('timeout')));
+    expect(timeouts[0]).toEqual(200);
+    expect(timeouts.slice(1).every((timeout, index) => timeout < timeouts[index])).toBe(true);
+
+    // a timed out wait is not retried
+    fetch.mockClear();
+    fetch.mockResolvedValueOnce(new Response(null, { status: 504 }));
+    await expect(retrying('https://api.mailslurp.com/waitForLatestEmail?inboxId=1&timeout=200', { method: 'GET' }))
+      .rejects.toMatchObject({ status: 504 });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
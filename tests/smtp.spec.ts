@@ -0,0 +1,67 @@
+import nodemailer from 'nodemailer';
+import {expect, test} from '@jest/globals';
+import MailSlurp = require("../src");
+import { SmtpProvider } from '../src/lib/providers';
+
+let I;
+
+describe('MailSlurp helper with local SMTP provider', function () {
+  beforeAll(async () => {
+    I = new MailSlurp({ provider: 'smtp', smtp: { port: 0 }, timeout: 2000 });
+    await I._init();
+  });
+
+  afterAll(async () => I._finishTest());
+
+  beforeEach(async () => I._before());
+  afterEach(async () => I._after());
+
+  test('should not require API key', () => {
+    expect(I.provider).toBeInstanceOf(SmtpProvider);
+    expect(I.mailslurp).toBeUndefined();
+    expect(() => new MailSlurp({})).toThrow('Please provide API key');
+  });
+
+  test('should send and receive an email', async () => {
+    const mailbox = await I.haveNewMailbox();
+    expect(mailbox.toString()).toMatch(/@example\.test$/);
+
+    await I.sendEmail({
+      to: [mailbox.emailAddress],
+      subject: 'Hello Test',
+      body: 'Testing'
+    });
+    const email = await I.waitForLatestEmail();
+    expect(email.body.trim()).toEqual('Testing');
+    I.seeEmailSubjectEquals('Hello Test');
+    I.seeEmailIsFrom(mailbox.emailAddress);
+  });
+
+  test('should receive emails sent by an application', async () => {
+    const mailbox = await I.haveNewMailbox();
+    const other = await I.haveNewMailbox();
+    const transport = nodemailer.createTransport({ host: '127.0.0.1', port: I.provider.port, ignoreTLS: true });
+    await transport.sendMail({
+      from: 'app@site.com',
+      to: mailbox.emailAddress,
+      subject: 'Invoice',
+      html: '<p>Your invoice</p>',
+      attachments: [{ filename: 'invoice.txt', content: 'Total: 10' }],
+    });
+    await transport.sendMail({ from: 'app@site.com', to: mailbox.emailAddress, subject: 'Welcome', text: 'Hi' });
+    transport.close();
+
+    I.openMailbox(mailbox);
+    const email = await I.waitForEmailMatching({ subject: 'Invoice' });
+    expect(email.isHTML).toBe(true);
+    I.seeNumberOfEmailAttachments(1);
+    await I.seeEmailAttachment('invoice');
+
+    await I.waitForNthEmail(1);
+    I.seeEmailSubjectEquals('Welcome');
+    expect((await I.grabAllEmailsFromMailbox()).length).toEqual(2);
+
+    I.openMailbox(other);
+    await expect(I.waitForLatestEmail(0.1)).rejects.toThrow('Timed out after 100ms');
+  });
+});
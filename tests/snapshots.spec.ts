@@ -0,0 +1,63 @@
+import fs from 'fs';
+import path from 'path';
+import {expect, test} from '@jest/globals';
+import { createMemoryHelper, createTempDir } from './helpers';
+
+describe('Email snapshots', function () {
+  test('should match emails with snapshots masking volatile values', async () => {
+    const ci = process.env.CI;
+    delete process.env.CI;
+    const dir = createTempDir('mailslurp-snapshots-');
+    const { I: snapshots } = createMemoryHelper({ snapshots: { dir } });
+    snapshots._before();
+    const mailbox = await snapshots.haveNewMailbox({ localPart: 'user-{random}' });
+    const welcome = (code: string, date: string, greeting = 'Hi Tom,') => ({
+      from: 'shop@site.com',
+      subject: 'Welcome to Shop',
+      html: `<p>${greeting}</p>\n<p>Your verification code is ${code}</p><p><a href="https://shop.test/confirm/${code}a8f3c9d2e7b4f1a6?token=${code}">Confirm</a></p>`
+        + `<p>Order #${code.slice(0, 3)} sent on ${date} to ${mailbox.emailAddress}</p>`,
+      attachments: [{ filename: 'terms.txt', content: 'Terms' }],
+    });
+
+    try {
+      await snapshots.haveEmailInMailbox(welcome('482913', '2026-10-18T10:00:00Z'));
+      await snapshots.waitForLatestEmail();
+      const orderNumber = { pattern: /Order #\d+/, replacement: 'Order #[id]' };
+      await snapshots.seeEmailMatchesSnapshot('welcome email', { mask: [orderNumber] });
+      const file = path.join(dir, 'welcome-email.txt');
+      const saved = fs.readFileSync(file, 'utf8');
+      expect(saved).toContain('Attachments: terms.txt');
+      expect(saved).toContain('Your verification code is [otp]');
+      expect(saved).toContain('Order #[id] sent on [date] to [mailbox1]');
+      expect(saved).toContain('<p>\n<a href="https://shop.test/confirm/***?token=***">Confirm</a>\n</p>');
+      expect(saved).not.toContain('482913');
+
+      await snapshots.haveEmailInMailbox(welcome('771204', '2026-10-19T08:30:00Z'));
+      await snapshots.waitForEmailMatching({ body: '771204' });
+      await snapshots.seeEmailMatchesSnapshot('welcome email', { mask: [orderNumber] });
+
+      await snapshots.haveEmailInMailbox(welcome('550127', '2026-10-20T08:30:00Z', 'Hello Tom,'));
+      await snapshots.waitForEmailMatching({ body: '550127' });
+      const error = await snapshots.seeEmailMatchesSnapshot('welcome email', { mask: [orderNumber] }).catch(err => err);
+      expect(error.message).toContain(`Email does not match snapshot ${file}`);
+      expect(error.message).toContain('- Hi Tom,\n+ Hello Tom,');
+      expect(error.message).toContain('- <p>Hi Tom,</p>\n+ <p>Hello Tom,</p>');
+      expect(error.message).toContain('Run tests with UPDATE_EMAIL_SNAPSHOTS=1 to update snapshots');
+      expect(fs.readFileSync(file, 'utf8')).toEqual(saved);
+
+      process.env.CI = 'true';
+      await expect(snapshots.seeEmailMatchesSnapshot('forgotten')).rejects.toThrow(`Email snapshot ${path.join(dir, 'forgotten.txt')} is missing`);
+      expect(fs.existsSync(path.join(dir, 'forgotten.txt'))).toBe(false);
+
+      process.env.UPDATE_EMAIL_SNAPSHOTS = '1';
+      await snapshots.seeEmailMatchesSnapshot('welcome email', { mask: [orderNumber] });
+      expect(fs.readFileSync(file, 'utf8')).toContain('<p>Hello Tom,</p>');
+    } finally {
+      delete process.env.UPDATE_EMAIL_SNAPSHOTS;
+      if (ci === undefined) delete process.env.CI;
+      else process.env.CI = ci;
+      await snapshots._after();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
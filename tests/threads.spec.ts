@@ -0,0 +1,48 @@
+import {expect, test} from '@jest/globals';
+import MailSlurp = require("../src");
+import { createMemoryHelper } from './helpers';
+
+let I: MailSlurp;
+
+describe('Email threads', function () {
+  beforeEach(async () => {
+    ({ I } = createMemoryHelper());
+    await I._before();
+  });
+
+  afterEach(async () => I._after());
+
+  test('should group emails into threads and check their order', async () => {
+    const support = await I.haveNewMailbox({ localPart: 'support' });
+    const customer = await I.haveNewMailbox({ localPart: 'customer' });
+    await I.sendEmail({ to: [support.emailAddress], subject: 'Ticket 7', text: 'My order is late' });
+
+    I.openMailbox(support);
+    const request = await I.waitForLatestEmail();
+    await I.replyToEmail(request, { text: 'It is on the way' });
+    I.openMailbox(customer);
+    const reply = await I.waitForLatestEmail();
+    await I.replyToEmail(reply, { text: 'Thanks' });
+    await I.sendEmail({ to: [support.emailAddress], subject: 'Another question', text: 'Hello' });
+
+    I.openMailbox(support);
+    await I.waitForEmailMatching({ body: 'Thanks' });
+    I.seeEmailIsReplyTo(reply);
+    expect(() => I.seeEmailIsReplyTo(request)).toThrow(`to be a reply to <${request.messageId.replace(/^<|>$/g, '')}>`);
+    // the support reply is in customer mailbox, the answer to it is linked to the request by References
+    await I.seeThreadLength(2);
+    const thread = await I.grabEmailThread();
+    expect(thread.map(e => e.subject)).toEqual(['Ticket 7', 'Re: Ticket 7']);
+    expect((await I.grabEmailThread(request)).map(e => e.id)).toEqual(thread.map(e => e.id));
+
+    const other = await I.waitForEmailMatching({ subject: 'Another question' });
+    await I.seeThreadLength(1);
+    expect(() => I.seeEmailIsReplyTo(request)).toThrow('but it has no In-Reply-To and References headers');
+    expect((await I.grabEmailThread(other)).map(e => e.subject)).toEqual(['Another question']);
+
+    await I.seeEmailsInOrder([{ subject: '=Ticket 7' }, { body: 'Thanks' }, { subject: 'Another' }]);
+    await expect(I.seeEmailsInOrder([{ subject: 'Another' }, { subject: '=Ticket 7' }]))
+      .rejects.toThrow('email #2 matching {"subject":"=Ticket 7"} was received earlier than previous emails');
+    await expect(I.seeEmailsInOrder([{ subject: 'Refund' }])).rejects.toThrow('email #1 matching {"subject":"Refund"} was not received');
+  });
+});
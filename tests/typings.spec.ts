@@ -0,0 +1,79 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import ts from 'typescript';
+import {expect, test} from '@jest/globals';
+
+// the same as steps.d.ts generated by `npx codeceptjs def`
+const steps = `/// <reference types='codeceptjs' />
+type MailSlurp = import('./dist/index');
+
+declare namespace CodeceptJS {
+  interface SupportObject { I: I }
+  interface Methods extends MailSlurp {}
+  interface I extends WithTranslation<Methods> {}
+}
+`;
+
+const consumer = `import MailSlurp = require('./dist/index');
+
+declare const I: CodeceptJS.I;
+
+const config: MailSlurp.Configuration = { apiKey: 'key', cleanup: 'onSuccess', timeout: 5000 };
+const query: MailSlurp.EmailQuery = { subject: /reset/i, from: '@site.com', not: { subject: 'Spam' } };
+
+async function scenario() {
+  const mailbox: MailSlurp.Inbox = await I.haveNewMailbox();
+  const email: MailSlurp.Email = await I.waitForEmailMatching(query);
+  const header: string = await I.grabEmailHeader('Reply-To');
+  const links: MailSlurp.EmailLink[] = await I.grabLinksFromEmail();
+  await I.sendEmail({ to: [mailbox.emailAddress], subject: 'Hello', body: 'Hi' });
+  const timeout: typeof MailSlurp.EmailWaitTimeoutError = MailSlurp.EmailWaitTimeoutError;
+  // @ts-expect-error a query is an object
+  await I.waitForEmailMatching('subject');
+  return { config, email, header, links, timeout };
+}
+
+export default scenario;
+`;
+
+let dir: string;
+
+describe('MailSlurp helper typings', function () {
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mailslurp-typings-'));
+  });
+
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  test('should compile steps of a consumer against emitted declarations', () => {
+    const root = path.resolve(__dirname, '..');
+    const { config } = ts.readConfigFile(path.join(root, 'tsconfig.json'), ts.sys.readFile);
+    const { options } = ts.parseJsonConfigFileContent(config, ts.sys, root);
+    const emitted = ts.createProgram([path.join(root, 'src/index.ts')], {
+      ...options,
+      emitDeclarationOnly: true,
+      outDir: path.join(dir, 'dist'),
+    }).emit();
+    expect(emitted.diagnostics.map(format)).toEqual([]);
+
+    // a consumer resolves codeceptjs and mailslurp-client from its own dependencies
+    fs.symlinkSync(path.join(root, 'node_modules'), path.join(dir, 'node_modules'), 'dir');
+    fs.writeFileSync(path.join(dir, 'steps.d.ts'), steps);
+    fs.writeFileSync(path.join(dir, 'consumer.ts'), consumer);
+    const program = ts.createProgram([path.join(dir, 'steps.d.ts'), path.join(dir, 'consumer.ts')], {
+      strict: true,
+      noEmit: true,
+      esModuleInterop: true,
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2018,
+      skipLibCheck: true,
+      types: ['node'],
+    });
+    expect(ts.getPreEmitDiagnostics(program).map(format)).toEqual([]);
+  }, 120000);
+});
+
+function format(diagnostic: ts.Diagnostic): string {
+  return ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+}
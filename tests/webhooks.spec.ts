@@ -0,0 +1,74 @@
+import {expect, jest, test} from '@jest/globals';
+import MailSlurp = require("../src");
+import { createMemoryHelper } from './helpers';
+
+describe('Webhook mode', function () {
+  test('should resolve waits from webhook events', async () => {
+    // polling is slower than a timeout, so waits can resolve only from events
+    const { I: hooked, provider } = createMemoryHelper({ timeout: 2000, webhook: { pollInterval: 60000 } });
+    const warn = jest.fn();
+    hooked.logger.warn = warn;
+    await hooked._init();
+    hooked._before();
+    try {
+      expect(hooked.receiver.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/$/);
+      const mailbox = await hooked.haveNewMailbox();
+      const other = await hooked.haveNewMailbox();
+
+      const latest = hooked.waitForLatestEmail();
+      await new Promise(resolve => setTimeout(resolve, 50));
+      await hooked.haveEmailInMailbox({ from: 'app@site.com', subject: 'Welcome', text: 'Hi' });
+      expect((await latest).subject).toEqual('Welcome');
+      expect(hooked.webhookIds.get(other.id)).toBeTruthy();
+
+      const matching = hooked.waitForEmailMatching({ subject: 'Invoice', body: 'paid' });
+      const nth = hooked.waitForNthEmail(2);
+      const any = hooked.waitForEmailInAnyMailbox({ subject: 'Invoice' });
+      await new Promise(resolve => setTimeout(resolve, 50));
+      await hooked.haveEmailInMailbox({ from: 'app@site.com', subject: 'Invoice #1', text: 'Payment pending' });
+      await hooked.haveEmailInMailbox({ from: 'app@site.com', subject: 'Invoice #2', text: 'Invoice paid' });
+      expect((await matching).subject).toEqual('Invoice #2');
+      expect((await nth).subject).toEqual('Invoice #2');
+      expect((await any).subject).toEqual('Invoice #1');
+
+      // an event only makes a wait check a mailbox, so a forged one can't fake an email
+      const next = hooked.waitForNthEmail(3, 0.3);
+      const payload = JSON.stringify({ eventName: 'NEW_EMAIL', inboxId: mailbox.id, emailId: 'forged', subject: 'Forged' });
+      expect((await fetch(hooked.receiver.url, { method: 'POST', body: payload })).status).toEqual(200);
+      expect((await fetch(hooked.receiver.url, { method: 'POST', body: '{' })).status).toEqual(400);
+      await expect(next).rejects.toThrow(MailSlurp.EmailWaitTimeoutError);
+      expect(warn).not.toHaveBeenCalled();
+
+      const registered = [...hooked.webhookIds];
+      const deleteWebhook = jest.spyOn(provider, 'deleteWebhook');
+      await hooked._after();
+      expect(hooked.webhookIds.size).toEqual(0);
+      for (const [inboxId, webhookId] of registered) expect(deleteWebhook).toHaveBeenCalledWith(inboxId, webhookId);
+    } finally {
+      await hooked._after();
+      await hooked._finishTest();
+    }
+    expect(hooked.receiver).toBeNull();
+  });
+
+  test('should poll when a webhook cannot be registered', async () => {
+    const { I: hooked } = createMemoryHelper({ webhook: { pollInterval: 60000 } });
+    const warn = jest.fn();
+    hooked.logger.warn = warn;
+    hooked.provider.createWebhook = () => Promise.reject(new Error('Webhook url is not reachable'));
+    await hooked._init();
+    hooked._before();
+    try {
+      const mailbox = await hooked.haveNewMailbox();
+      const latest = hooked.waitForLatestEmail();
+      await hooked.haveEmailInMailbox({ from: 'app@site.com', subject: 'Welcome', text: 'Hi' });
+      expect((await latest).subject).toEqual('Welcome');
+      expect(warn).toHaveBeenCalledWith(`Failed to register webhook for ${mailbox.id}, falling back to polling: Webhook url is not reachable`);
+      expect(hooked.webhookIds.get(mailbox.id)).toBeNull();
+      await expect(hooked.waitForNthEmail(1)).rejects.toThrow(MailSlurp.EmailWaitTimeoutError);
+    } finally {
+      await hooked._after();
+      await hooked._finishTest();
+    }
+  });
+});